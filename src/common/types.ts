@@ -18,6 +18,13 @@ export type Password = string;
  */
 export type Email = string;
 
+/**
+ * Portuguese tax number (NIF).
+ * @pattern ^[0-9]{9}$
+ * @example "123456789"
+ */
+export type Nif = string;
+
 /** @example "Alice" */
 export type Fullname = string;
 
@@ -0,0 +1,175 @@
+/**
+ * Makes requests safe to retry. The first request with a given "Idempotency-Key" runs normally and its
+ * response is stored. Retries with the same key and body get the stored response instead of running again.
+ * The key is claimed and the response stored in the request's own transaction, so either both the request's
+ * changes and its response are saved, or neither is and the request can be retried with the same key.
+ * A retry made while the original request is still running waits for it to finish.
+ */
+import { Op, Transaction, TransactionOptions, UniqueConstraintError, WhereOptions } from "sequelize";
+import { AppErrorCode, BadRequestError, ConflitError } from "../common/errors";
+import { UUID } from "../common/types";
+import { idempotency as config } from "../config.json";
+import { retryTransaction } from "../sequelize";
+import { hasDateExpired, sha256 } from "../utils/crypto";
+import { IdempotencyKey } from "./idempotencyModel";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+const MAX_KEY_LENGTH = 255;
+const KEY_EXPIRES_IN_SECONDS: number = config.expiresInSeconds;
+
+/** Identifies an idempotent request. */
+export interface IdempotentRequest {
+    /** The "Idempotency-Key" header. If missing, the request isn't idempotent. */
+    key?: string,
+    userId: UUID,
+    /** e.g., "POST /sales" */
+    route: string,
+    /** Any request data that must match on retries (e.g., the body and path parameters). */
+    payload: unknown,
+}
+
+/** Thrown when a concurrent request with the same key committed first. */
+class KeyClaimedError extends Error {}
+
+/**
+ * Runs the handler once for each idempotency key.
+ *
+ * @param request The request's key, user, route and payload.
+ * @param options The options of the transaction the handler runs in (e.g., its isolation level).
+ * @param handler Runs the request and resolves with its response. If the request is idempotent, it's given
+ * the transaction to run in. Otherwise, it starts its own.
+ * @returns A promise to be either resolved with the (possibly stored) response or rejected with an Error.
+ * Rejected with a ConflitError if the key was used with a different request.
+ */
+export async function runIdempotent<T>(
+    request: IdempotentRequest,
+    options: TransactionOptions,
+    handler: (transaction?: Transaction) => Promise<T>
+): Promise<T> {
+    const { key, userId, route, payload } = request;
+    if (key == null) {
+        return await handler();
+    }
+
+    if (key.length == 0 || key.length > MAX_KEY_LENGTH) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Invalid idempotency key.",
+            fields: {
+                [IDEMPOTENCY_HEADER]: {
+                    message: `Must have between 1 and ${MAX_KEY_LENGTH} characters.`,
+                    value: key
+                }
+            }
+        }));
+    }
+
+    const requestHash = sha256(stableStringify({route, payload}));
+    for (;;) {
+        const existing = await IdempotencyKey.findOne({where: {key, userId}});
+        if (existing != null && !isReleased(existing)) {
+            if (existing.requestHash != requestHash) {
+                return Promise.reject(keyConflictError(key, "This key was already used with a different request."));
+            }
+            return existing.response as unknown as T;
+        }
+
+        try {
+            return await retryTransaction(IdempotencyKey.sequelize!!, options, async (transaction) => {
+                const record = await claimKey(key, userId, route, requestHash, transaction);
+                const response = await handler(transaction);
+                record.set({completed: true, response: (response ?? null) as unknown as object});
+                await record.save({transaction});
+                return response;
+            });
+        } catch (err) {
+            // Answer with the concurrent request's response.
+            if (!(err instanceof KeyClaimedError)) {
+                throw err;
+            }
+        }
+    }
+}
+
+/**
+ * Creates the key's record, replacing it if it was released.
+ * A concurrent request that claimed the key first holds it until its transaction ends.
+ *
+ * @returns A promise to be either resolved with the record or rejected with an Error.
+ * Rejected with a KeyClaimedError if a concurrent request claimed the key.
+ */
+async function claimKey(
+    key: string,
+    userId: UUID,
+    route: string,
+    requestHash: string,
+    transaction: Transaction
+): Promise<IdempotencyKey> {
+    await IdempotencyKey.destroy({where: {key, userId, ...releasedWhere()}, transaction});
+    try {
+        return await IdempotencyKey.create({key, userId, route, requestHash}, {transaction});
+    } catch (err) {
+        throw (err instanceof UniqueConstraintError) ? new KeyClaimedError() : err;
+    }
+}
+
+/**
+ * @param record The key's record.
+ * @returns True if the key expired. Records are completed in the same transaction that creates them,
+ * so any other incomplete record is released too.
+ */
+function isReleased(record: IdempotencyKey): boolean {
+    const expiresAt = new Date(record.createdAt.valueOf() + KEY_EXPIRES_IN_SECONDS * 1000);
+    return hasDateExpired(expiresAt) || !record.completed;
+}
+
+/**
+ * @returns The same condition as isReleased(), for queries.
+ */
+function releasedWhere(): WhereOptions<IdempotencyKey> {
+    return {
+        [Op.or]: [
+            {createdAt: {[Op.lt]: new Date(Date.now() - KEY_EXPIRES_IN_SECONDS * 1000)}},
+            {completed: false},
+        ]
+    };
+}
+
+/**
+ * JSON.stringify() with the objects' keys sorted, so the same data always has the same hash.
+ */
+function stableStringify(value: unknown): string {
+    if (value instanceof Date) {
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+    if (value != null && typeof value == "object") {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b) ? -1 : (a > b) ? 1 : 0)
+            .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * @param key The idempotency key.
+ * @param message Why the key can't be used.
+ * @returns A ConflitError for the key.
+ */
+function keyConflictError(key: string, message: string): ConflitError {
+    return new ConflitError({
+        message: "Can't use idempotency key.",
+        code: AppErrorCode.DUPLICATED,
+        fields: {
+            [IDEMPOTENCY_HEADER]: {
+                message: message,
+                value: key
+            }
+        }
+    });
+}
@@ -0,0 +1,74 @@
+import { CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, Sequelize } from "sequelize";
+import { UUID } from "../common/types";
+import { registerAssociations, registerModel } from "../sequelize";
+import { User } from "../users/userModel";
+
+/**
+ * A request made with an "Idempotency-Key" header.
+ * Retries with the same key get the stored response, instead of repeating the request.
+ */
+export class IdempotencyKey extends Model<InferAttributes<IdempotencyKey>, InferCreationAttributes<IdempotencyKey>> {
+    declare key: string;
+    declare userId: ForeignKey<UUID>;
+    declare route: string;
+    declare requestHash: string;
+    declare completed: CreationOptional<boolean>;
+    declare response: CreationOptional<object | null>;
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+}
+
+registerModel(initIdempotencyKeyModel);
+registerAssociations(initIdempotencyKeyAssociations);
+
+async function initIdempotencyKeyModel(sequelize: Sequelize): Promise<void> {
+    IdempotencyKey.init(
+        {
+            // Keys are chosen by the clients, so they're only unique for each user.
+            key: {
+                type: DataTypes.STRING,
+                primaryKey: true,
+            },
+            userId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            // e.g., "POST /sales"
+            route: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            requestHash: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            // Set when the response is stored, in the transaction that claimed the key.
+            completed: {
+                type: DataTypes.BOOLEAN,
+                allowNull: false,
+                defaultValue: false,
+            },
+            response: {
+                type: DataTypes.JSONB,
+                allowNull: true,
+            },
+            createdAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+            updatedAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            }
+        },
+        {
+            sequelize: sequelize,
+            tableName: "idempotency_key",
+            timestamps: true,
+        }
+    )
+}
+
+async function initIdempotencyKeyAssociations(): Promise<void> {
+    IdempotencyKey.belongsTo(User, {foreignKey: "userId", onDelete: "CASCADE"});
+}
@@ -0,0 +1,228 @@
+/**
+ * Issues the fiscal documents of the sales: an invoice-receipt when a sale is completed and a credit note
+ * when it's cancelled or items are returned.
+ * Documents are numbered without gaps within their series (one per location, year and document type):
+ * the number is taken and the document is created in the same transaction as the sale's change.
+ * Concurrent documents of the same series make all but one of those transactions fail to serialize,
+ * so they must be started with retryTransaction().
+ * Each document is signed together with the previous document's hash, chaining the series.
+ */
+import crypto, { KeyObject } from "crypto";
+import { literal, Transaction } from "sequelize";
+import { UUID } from "../common/types";
+import { invoices as config } from "../config.json";
+import { TaxRate } from "../products/types";
+import { SaleItem } from "../sales/saleItemModel";
+import { Sale } from "../sales/saleModel";
+import { splitTax } from "../sales/TaxService";
+import { InvoiceLine } from "./invoiceLineModel";
+import { Invoice } from "./invoiceModel";
+import { InvoiceSeries, InvoiceType } from "./invoiceSeriesModel";
+
+/** A line of a fiscal document. Amounts in euro cents. */
+export interface DocumentLine {
+    productId: UUID,
+    quantity: number,
+    taxRate: TaxRate,
+    net: number,
+    tax: number,
+    gross: number,
+}
+
+// Documents are dated in Lisbon.
+const INVOICE_TIMEZONE = "Europe/Lisbon";
+
+// ATCUD validation code of series not registered with the tax authority.
+const UNREGISTERED_VALIDATION_CODE = "0";
+
+const PRIVATE_KEY: string = process.env.INVOICE_PRIVATE_KEY || config.INVOICE_PRIVATE_KEY;
+const KEY_VERSION: string = config.keyVersion;
+
+let signingKey: KeyObject | null = null;
+
+/**
+ * Loads the key that signs the documents. Without it, documents can't be issued, since the hash chain
+ * could never be verified.
+ *
+ * @returns A promise to be either resolved when the key is loaded or rejected if it isn't configured or valid.
+ */
+export async function initSigningKey(): Promise<void> {
+    if (PRIVATE_KEY.length == 0) {
+        return Promise.reject("No invoice signing key. Set the 'INVOICE_PRIVATE_KEY' environment variable or use the 'config.json' file.");
+    }
+
+    try {
+        getSigningKey();
+    } catch (err) {
+        return Promise.reject("Invalid invoice signing key ('INVOICE_PRIVATE_KEY' or 'config.json'). Must be an RSA private key in PEM format.");
+    }
+}
+
+/**
+ * Issues the invoice-receipt of a completed sale.
+ *
+ * @param sale The sale.
+ * @param items The sale's items.
+ * @param transaction The transaction completing the sale.
+ * @returns A promise to be either resolved with the invoice or rejected with an Error.
+ */
+export async function issueInvoice(sale: Sale, items: SaleItem[], transaction: Transaction): Promise<Invoice> {
+    const lines: DocumentLine[] = items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        taxRate: item.taxRate,
+        net: item.net,
+        tax: item.tax,
+        gross: item.total,
+    }));
+
+    return await issueDocument(InvoiceType.INVOICE_RECEIPT, sale, lines, {}, transaction);
+}
+
+/**
+ * Issues a credit note for part (or all) of a sale's invoice. Sales without an invoice get no credit note.
+ *
+ * @param sale The sale.
+ * @param lines The credited quantities and amounts.
+ * @param reason Why the amounts are credited.
+ * @param transaction The transaction cancelling the sale or returning its items.
+ * @returns A promise to be either resolved with the credit note (or null if the sale has no invoice) or rejected with an Error.
+ */
+export async function issueCreditNote(sale: Sale, lines: DocumentLine[], reason: string, transaction: Transaction): Promise<Invoice | null> {
+    const invoice = await Invoice.findOne({
+        where: {saleId: sale.saleId, type: InvoiceType.INVOICE_RECEIPT},
+        transaction,
+    });
+
+    if (invoice == null || lines.length == 0) {
+        return null;
+    }
+
+    return await issueDocument(
+        InvoiceType.CREDIT_NOTE,
+        sale,
+        lines,
+        {creditedInvoiceId: invoice.invoiceId, customerNif: invoice.customerNif, reason: reason},
+        transaction
+    );
+}
+
+/**
+ * @param productId The credited product.
+ * @param quantity The credited quantity.
+ * @param taxRate The VAT rate, in percentage, of the sale.
+ * @param gross The credited amount, in euro cents, including VAT.
+ * @returns The credit note's line.
+ */
+export function toCreditLine(productId: UUID, quantity: number, taxRate: TaxRate, gross: number): DocumentLine {
+    return {productId, quantity, taxRate, ...splitTax(gross, taxRate)};
+}
+
+/**
+ * Validates a Portuguese tax number (NIF) with its check digit.
+ *
+ * @param nif A 9 digit tax number.
+ * @returns True if the tax number is valid.
+ */
+export function isValidNif(nif: string): boolean {
+    if (!/^[0-9]{9}$/.test(nif)) {
+        return false;
+    }
+
+    const digits: number[] = nif.split("").map(Number);
+    const sum = digits.slice(0, 8).reduce((acc, digit, idx) => acc + digit * (9 - idx), 0);
+    const check = 11 - (sum % 11);
+    return digits[8] == ((check >= 10) ? 0 : check);
+}
+
+/**
+ * @param date A date.
+ * @returns The date in Lisbon's time zone, e.g., "2022-09-01T21:30:00".
+ */
+export function toLocalDateTime(date: Date): string {
+    return date.toLocaleString("sv-SE", {timeZone: INVOICE_TIMEZONE}).replace(" ", "T");
+}
+
+async function issueDocument(
+    type: InvoiceType,
+    sale: Sale,
+    lines: DocumentLine[],
+    extra: {creditedInvoiceId?: UUID, customerNif?: string | null, reason?: string},
+    transaction: Transaction
+): Promise<Invoice> {
+    const createdAt = new Date();
+    const systemEntryDate = toLocalDateTime(createdAt);
+    const issueDate = systemEntryDate.slice(0, 10);
+
+    const series = await takeNextNumber(sale.locationId, Number(issueDate.slice(0, 4)), type, transaction);
+    const number = series.lastNumber;
+    const documentNumber = `${type} ${series.code}/${number}`;
+    const gross = lines.reduce((acc, line) => acc + line.gross, 0);
+    const hash = signDocument([issueDate, systemEntryDate, documentNumber, (gross / 100).toFixed(2), series.lastHash || ""]);
+
+    const invoice = await Invoice.create(
+        {
+            seriesId: series.seriesId,
+            saleId: sale.saleId,
+            locationId: sale.locationId,
+            type: type,
+            number: number,
+            documentNumber: documentNumber,
+            atcud: `${series.validationCode || UNREGISTERED_VALIDATION_CODE}-${number}`,
+            hash: hash,
+            hashControl: KEY_VERSION,
+            issueDate: issueDate,
+            customerNif: extra.customerNif ?? sale.customerNif,
+            creditedInvoiceId: extra.creditedInvoiceId,
+            reason: extra.reason,
+            net: lines.reduce((acc, line) => acc + line.net, 0),
+            tax: lines.reduce((acc, line) => acc + line.tax, 0),
+            gross: gross,
+            createdAt: createdAt,
+        },
+        {transaction}
+    );
+
+    invoice.lines = await InvoiceLine.bulkCreate(
+        lines.map(line => ({invoiceId: invoice.invoiceId, ...line})),
+        {transaction}
+    );
+
+    await InvoiceSeries.update({lastHash: hash}, {where: {seriesId: series.seriesId}, transaction});
+    return invoice;
+}
+
+/**
+ * Takes the series' next number in a single statement. The series stays locked until the transaction ends,
+ * so no other document takes the same number or chains the same hash.
+ * A series is created if the location has none for the year. Its code is made of the year and the location.
+ *
+ * @returns The series, with the taken number as its last number and the previous document's hash.
+ */
+async function takeNextNumber(locationId: UUID, year: number, type: InvoiceType, transaction: Transaction): Promise<InvoiceSeries> {
+    const code = `${year}${locationId.replace(/-/g, "").slice(0, 8).toUpperCase()}`;
+    await InvoiceSeries.bulkCreate([{locationId, year, type, code}], {ignoreDuplicates: true, transaction});
+
+    const [ , series ] = await InvoiceSeries.update(
+        {lastNumber: literal(`"lastNumber" + 1`)},
+        {where: {locationId, year, type}, returning: true, transaction}
+    );
+    return series[0];
+}
+
+/**
+ * Signs the document's fields with RSA-SHA1, as required for certified invoicing software.
+ *
+ * @param fields Issue date, system entry date, document number, gross total and the previous document's hash.
+ * @returns The signature, in base64.
+ */
+function signDocument(fields: string[]): string {
+    return crypto.sign("RSA-SHA1", Buffer.from(fields.join(";")), getSigningKey()).toString("base64");
+}
+
+function getSigningKey(): KeyObject {
+    if (signingKey == null) {
+        signingKey = crypto.createPrivateKey(PRIVATE_KEY);
+    }
+    return signingKey;
+}
@@ -0,0 +1,96 @@
+import { Association, BelongsToGetAssociationMixin, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
+import { UUID } from "../common/types";
+import { Product } from "../products/productModel";
+import { TaxRate } from "../products/types";
+import { registerAssociations, registerModel } from "../sequelize";
+import { Invoice } from "./invoiceModel";
+
+export class InvoiceLine extends Model<InferAttributes<InvoiceLine>, InferCreationAttributes<InvoiceLine>> {
+    declare invoiceId: ForeignKey<UUID>;
+    declare productId: ForeignKey<UUID>;
+    declare quantity: number;
+    declare taxRate: TaxRate;
+    declare net: number;
+    declare tax: number;
+    declare gross: number;
+
+    declare getInvoice: BelongsToGetAssociationMixin<Invoice>;
+    declare getProduct: BelongsToGetAssociationMixin<Product>;
+
+    // Eager loaded properties
+    declare invoice?: NonAttribute<Invoice>;
+    declare product?: NonAttribute<Product>;
+
+    declare static associations: {
+        invoice: Association<InvoiceLine, Invoice>,
+        product: Association<InvoiceLine, Product>,
+    }
+}
+
+registerModel(initInvoiceLineModel);
+registerAssociations(initInvoiceLineAssociations);
+
+async function initInvoiceLineModel(sequelize: Sequelize): Promise<void> {
+    InvoiceLine.init(
+        {
+            invoiceId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            productId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            quantity: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 1,
+                }
+            },
+            // VAT rate in percentage.
+            taxRate: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                    max: 100,
+                }
+            },
+            // Total without VAT, in euro cents.
+            net: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+            // VAT in euro cents.
+            tax: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+            // Total with VAT, in euro cents.
+            gross: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "invoice_line",
+            timestamps: false,
+        }
+    )
+}
+
+async function initInvoiceLineAssociations(): Promise<void> {
+    InvoiceLine.belongsTo(Invoice, {as: "invoice", foreignKey: "invoiceId"});
+    InvoiceLine.belongsTo(Product, {as: "product", foreignKey: "productId"});
+}
@@ -0,0 +1,178 @@
+import { Association, BelongsToGetAssociationMixin, CreationOptional, DataTypes, ForeignKey, HasManyGetAssociationsMixin, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { Location } from "../locations/locationModel";
+import { Sale } from "../sales/saleModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { InvoiceLine } from "./invoiceLineModel";
+import { InvoiceSeries, InvoiceType } from "./invoiceSeriesModel";
+
+export class Invoice extends Model<InferAttributes<Invoice>, InferCreationAttributes<Invoice>> {
+    declare invoiceId: CreationOptional<UUID>;
+    declare seriesId: ForeignKey<UUID>;
+    declare saleId: ForeignKey<UUID>;
+    declare locationId: ForeignKey<UUID>;
+    declare type: InvoiceType;
+    declare number: number;
+    declare documentNumber: string;
+    declare atcud: string;
+    declare hash: string;
+    declare hashControl: string;
+    declare issueDate: string;
+    declare customerNif: CreationOptional<string | null>;
+    declare creditedInvoiceId: CreationOptional<UUID | null>;
+    declare reason: CreationOptional<string | null>;
+    declare net: number;
+    declare tax: number;
+    declare gross: number;
+    declare createdAt: CreationOptional<Date>;
+
+    declare getSeries: BelongsToGetAssociationMixin<InvoiceSeries>;
+    declare getSale: BelongsToGetAssociationMixin<Sale>;
+    declare getLines: HasManyGetAssociationsMixin<InvoiceLine>;
+
+    // Eager loaded properties
+    declare series?: NonAttribute<InvoiceSeries>;
+    declare sale?: NonAttribute<Sale>;
+    declare location?: NonAttribute<Location>;
+    declare lines?: NonAttribute<InvoiceLine[]>;
+    declare creditedInvoice?: NonAttribute<Invoice>;
+
+    declare static associations: {
+        series: Association<Invoice, InvoiceSeries>,
+        sale: Association<Invoice, Sale>,
+        location: Association<Invoice, Location>,
+        lines: Association<Invoice, InvoiceLine>,
+        creditedInvoice: Association<Invoice, Invoice>,
+    }
+}
+
+registerModel(initInvoiceModel);
+registerAssociations(initInvoiceAssociations);
+
+async function initInvoiceModel(sequelize: Sequelize): Promise<void> {
+    Invoice.init(
+        {
+            invoiceId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            seriesId: {
+                type: DataTypes.UUID,
+                allowNull: false,
+            },
+            saleId: {
+                type: DataTypes.UUID,
+                allowNull: false,
+            },
+            locationId: {
+                type: DataTypes.UUID,
+                allowNull: false,
+            },
+            type: {
+                type: DataTypes.ENUM,
+                allowNull: false,
+                values: Object.values(InvoiceType)
+            },
+            // Sequential number within the series.
+            number: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 1,
+                }
+            },
+            // Type, series and number, e.g., "FR 2022A/1".
+            documentNumber: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                unique: true,
+            },
+            // Unique document code: the series' validation code and the number, e.g., "AAJFJMVNTN-1".
+            atcud: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            // Signature of this document and the previous one's hash, in base64.
+            hash: {
+                type: DataTypes.STRING(512),
+                allowNull: false,
+            },
+            // Version of the key used to sign the hash.
+            hashControl: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            // Date of issue, in Lisbon.
+            issueDate: {
+                type: DataTypes.DATEONLY,
+                allowNull: false,
+            },
+            // The customer's tax number (NIF), if requested.
+            customerNif: {
+                type: DataTypes.STRING(9),
+                allowNull: true,
+            },
+            // The invoice a credit note refers to.
+            creditedInvoiceId: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
+            // Why a credit note was issued.
+            reason: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
+            // Total without VAT, in euro cents.
+            net: {
+                type: DataTypes.BIGINT,
+                allowNull: false,
+                validate: {
+                    min: 0
+                }
+            },
+            // VAT in euro cents.
+            tax: {
+                type: DataTypes.BIGINT,
+                allowNull: false,
+                validate: {
+                    min: 0
+                }
+            },
+            // Total with VAT, in euro cents.
+            gross: {
+                type: DataTypes.BIGINT,
+                allowNull: false,
+                validate: {
+                    min: 0
+                }
+            },
+            createdAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "invoice",
+            timestamps: true,
+            updatedAt: false,
+            indexes: [
+                {unique: true, fields: ["seriesId", "number"]}
+            ]
+        }
+    )
+}
+
+async function initInvoiceAssociations(): Promise<void> {
+    Invoice.belongsTo(InvoiceSeries, {as: "series", foreignKey: "seriesId"});
+    Invoice.belongsTo(Location, {as: "location", foreignKey: "locationId"});
+    Invoice.belongsTo(Invoice, {as: "creditedInvoice", foreignKey: "creditedInvoiceId"});
+    Invoice.hasMany(InvoiceLine, {as: "lines", foreignKey: "invoiceId"});
+
+    Sale.hasMany(Invoice, {as: "invoices", foreignKey: "saleId"});
+    Invoice.belongsTo(Sale, {as: "sale", foreignKey: "saleId"});
+}
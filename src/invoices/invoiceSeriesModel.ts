@@ -0,0 +1,103 @@
+import { Association, BelongsToGetAssociationMixin, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { Location } from "../locations/locationModel";
+import { registerAssociations, registerModel } from "../sequelize";
+
+/** Fiscal document types (SAF-T PT codes). */
+export enum InvoiceType {
+    // Invoice-receipt. Issued for completed sales.
+    INVOICE_RECEIPT = "FR",
+    // Credit note. Issued for cancelled sales and returns.
+    CREDIT_NOTE = "NC",
+}
+
+export class InvoiceSeries extends Model<InferAttributes<InvoiceSeries>, InferCreationAttributes<InvoiceSeries>> {
+    declare seriesId: CreationOptional<UUID>;
+    declare locationId: ForeignKey<UUID>;
+    declare year: number;
+    declare type: InvoiceType;
+    declare code: string;
+    declare validationCode: CreationOptional<string | null>;
+    declare lastNumber: CreationOptional<number>;
+    declare lastHash: CreationOptional<string | null>;
+    declare createdAt: NonAttribute<Date>;
+    declare updatedAt: NonAttribute<Date>;
+
+    declare getLocation: BelongsToGetAssociationMixin<Location>;
+
+    // Eager loaded properties
+    declare location?: NonAttribute<Location>;
+
+    declare static associations: {
+        location: Association<InvoiceSeries, Location>,
+    }
+}
+
+registerModel(initInvoiceSeriesModel);
+registerAssociations(initInvoiceSeriesAssociations);
+
+async function initInvoiceSeriesModel(sequelize: Sequelize): Promise<void> {
+    InvoiceSeries.init(
+        {
+            seriesId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            locationId: {
+                type: DataTypes.UUID,
+                allowNull: false,
+            },
+            year: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+            },
+            type: {
+                type: DataTypes.ENUM,
+                allowNull: false,
+                values: Object.values(InvoiceType)
+            },
+            // Series identifier printed in the document number, e.g., "FR 2022A/1".
+            code: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                validate: {
+                    is: /^[A-Za-z0-9_-]{1,35}$/
+                }
+            },
+            // Code assigned by the tax authority (AT) when the series is registered. Part of the ATCUD.
+            validationCode: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
+            // Number of the last document issued. Documents are numbered without gaps.
+            lastNumber: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+            },
+            // Hash of the last document issued. Each document's hash signs the previous one's.
+            lastHash: {
+                type: DataTypes.STRING(512),
+                allowNull: true,
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "invoice_series",
+            timestamps: true,
+            indexes: [
+                // One series per location, year and document type.
+                {unique: true, fields: ["locationId", "year", "type"]},
+                {unique: true, fields: ["type", "code"]},
+            ]
+        }
+    )
+}
+
+async function initInvoiceSeriesAssociations(): Promise<void> {
+    InvoiceSeries.belongsTo(Location, {as: "location", foreignKey: "locationId"});
+}
@@ -0,0 +1,342 @@
+import { ForeignKeyConstraintError, Op, UniqueConstraintError } from "sequelize";
+import { Body, Controller, Get, Path, Post, Query, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
+import { AppErrorCode, AuthenticationErrorResponse, BadRequestErrorResponse, ConflitError, ConflitErrorResponse, ForbiddenErrorResponse, NotFoundError, NotFoundErrorResponse, ServerErrorResponse } from "../common/errors";
+import { Role } from "../common/roles";
+import { Nif, UUID } from "../common/types";
+import { TaxRate } from "../products/types";
+import { SecurityScheme } from "../security/authorization";
+import { Invoice } from "./invoiceModel";
+import { InvoiceSeries, InvoiceType } from "./invoiceSeriesModel";
+
+const TAG_INVOICES = "Invoices";
+
+const INVOICE_LINE_ATTRIBUTES = ["productId", "quantity", "taxRate", "net", "tax", "gross"];
+
+@Route("invoices")
+export class InvoicesController extends Controller {
+    /**
+     * Invoices are issued when a sale is completed. Credit notes are issued when a sale is cancelled
+     * or items are returned. The list is ordered by date of issue (ascending).
+     *
+     * @summary Retrieve a list of invoices and credit notes.
+     *
+     * @param limit Limit the number of documents returned. Minimum 1.
+     * @isInt limit Must be an integer >= 1.
+     * @minimum limit 1 minimum 1.
+     *
+     * @param page Used for pagination. When limit is used, chunks of documents will be skipped.
+     * @isInt page Must be an integer >= 0.
+     * @minimum page 0 minimum 0.
+     *
+     * @param startDate Documents issued on or after this day.
+     * @isDate startDate Must be a date like 'YYYY-MM-DD'.
+     *
+     * @param endDate Documents issued on or before this day.
+     * @isDate endDate Must be a date like 'YYYY-MM-DD'.
+     *
+     * @param saleId Documents of this sale.
+     *
+     * @param locationId Documents issued at this location.
+     *
+     * @param type Documents of this type.
+     */
+    @Get()
+    @Tags(TAG_INVOICES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned a list of invoices.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getInvoices(
+        @Query() limit: number = 10,
+        @Query() page: number = 0,
+        @Query() startDate?: Date,
+        @Query() endDate?: Date,
+        @Query() saleId?: UUID,
+        @Query() locationId?: UUID,
+        @Query() type?: InvoiceType,
+    ): Promise<GetInvoicesResult> {
+        const result = await Invoice.findAll({
+            limit: limit,
+            offset: page * limit,
+            where: {
+                ...(startDate || endDate) ? {
+                    issueDate: {
+                        ...(startDate) ? {[Op.gte]: startDate} : {},
+                        ...(endDate) ? {[Op.lte]: endDate} : {},
+                    }
+                } : {},
+                ...(saleId) ? {saleId: saleId} : {},
+                ...(locationId) ? {locationId: locationId} : {},
+                ...(type) ? {type: type} : {},
+            },
+            include: {
+                association: Invoice.associations.lines,
+                attributes: INVOICE_LINE_ATTRIBUTES,
+            },
+            order: [["createdAt", "asc"], ["number", "asc"]],
+        });
+
+        return {
+            status: 200,
+            data: result.map(toInvoiceInfo)
+        };
+    }
+
+    /**
+     * @summary Retrieve the invoice series.
+     *
+     * @param year Series of this year.
+     */
+    @Get("series")
+    @Tags(TAG_INVOICES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned the invoice series.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getInvoiceSeries(
+        @Query() year?: number,
+    ): Promise<GetInvoiceSeriesResult> {
+        const result = await InvoiceSeries.findAll({
+            where: (year != null) ? {year: year} : {},
+            order: [["year", "asc"], ["code", "asc"]],
+        });
+
+        return {
+            status: 200,
+            data: result.map(toInvoiceSeriesInfo)
+        };
+    }
+
+    /**
+     * Registers a series with the validation code assigned by the tax authority (AT), before any document is issued.
+     * Locations without a registered series get one when their first document of the year is issued,
+     * without a validation code (the ATCUD starts with "0").
+     *
+     * @summary Register an invoice series.
+     */
+    @Post("series")
+    @Tags(TAG_INVOICES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(201, "Successfully registered the series.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ConflitErrorResponse>(409, "Can't register the series.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async createInvoiceSeries(
+        @Body() body: CreateInvoiceSeriesParams,
+    ): Promise<CreateInvoiceSeriesResult> {
+        const { locationId, year, type, code, validationCode } = body;
+
+        try {
+            const series = await InvoiceSeries.create({locationId, year, type, code, validationCode});
+
+            return {
+                status: 201,
+                data: toInvoiceSeriesInfo(series)
+            };
+
+        } catch (err) {
+            if (err instanceof UniqueConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't register the series. It already exists.",
+                    code: AppErrorCode.DUPLICATED,
+                    fields: {
+                        "body.code": {
+                            message: "Each location has one series per year and type, and codes are unique per type.",
+                            value: code
+                        }
+                    }
+                }));
+            }
+            if (err instanceof ForeignKeyConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't register the series. The location doesn't exist.",
+                    fields: {
+                        "body.locationId": {
+                            message: "This locationId doesn't exist.",
+                            value: locationId
+                        }
+                    }
+                }));
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * @summary Retrieve an invoice or credit note.
+     *
+     * @param invoiceId The document's unique identifier.
+     */
+    @Get("{invoiceId}")
+    @Tags(TAG_INVOICES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned the invoice.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Invoice not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getInvoice(
+        @Path() invoiceId: UUID,
+    ): Promise<GetInvoiceResult> {
+        const result = await Invoice.findByPk(invoiceId, {
+            include: {
+                association: Invoice.associations.lines,
+                attributes: INVOICE_LINE_ATTRIBUTES,
+            },
+        });
+
+        if (result == null) {
+            return Promise.reject(new NotFoundError({
+                code: AppErrorCode.NOT_FOUND,
+                message: "Invoice not found."
+            }));
+        }
+
+        return {
+            status: 200,
+            data: toInvoiceInfo(result)
+        };
+    }
+}
+
+// ------------------------------ Helper Functions ------------------------------ //
+
+function toInvoiceInfo(invoice: Invoice): InvoiceInfo {
+    return {
+        invoiceId: invoice.invoiceId,
+        type: invoice.type,
+        documentNumber: invoice.documentNumber,
+        atcud: invoice.atcud,
+        hash: invoice.hash,
+        saleId: invoice.saleId,
+        locationId: invoice.locationId,
+        customerNif: invoice.customerNif || undefined,
+        creditedInvoiceId: invoice.creditedInvoiceId || undefined,
+        reason: invoice.reason || undefined,
+        issueDate: invoice.issueDate,
+        createdAt: invoice.createdAt,
+        net: Number(invoice.net),
+        tax: Number(invoice.tax),
+        gross: Number(invoice.gross),
+        lines: invoice.lines?.map(line => ({
+            productId: line.productId,
+            quantity: line.quantity,
+            taxRate: line.taxRate,
+            net: line.net,
+            tax: line.tax,
+            gross: line.gross,
+        })) || [],
+    };
+}
+
+function toInvoiceSeriesInfo(series: InvoiceSeries): InvoiceSeriesInfo {
+    return {
+        seriesId: series.seriesId,
+        locationId: series.locationId,
+        year: series.year,
+        type: series.type,
+        code: series.code,
+        validationCode: series.validationCode || undefined,
+        lastNumber: series.lastNumber,
+    };
+}
+
+// ------------------------------ Request Formats ------------------------------ //
+
+/** JSON request format for the "POST /invoices/series" endpoint. */
+interface CreateInvoiceSeriesParams {
+    locationId: UUID,
+    /**
+     * @isInt
+     * @minimum 2000 minimum 2000.
+     */
+    year: number,
+    type: InvoiceType,
+    /**
+     * @pattern ^[A-Za-z0-9_-]{1,35}$
+     * @example "2022A"
+     */
+    code: string,
+    /**
+     * Validation code assigned by the tax authority (AT).
+     * @pattern ^[A-Za-z0-9]{8,}$
+     * @example "AAJFJMVNTN"
+     */
+    validationCode: string,
+}
+
+// ------------------------------ Response Formats ------------------------------ //
+
+interface InvoiceLineInfo {
+    productId: UUID,
+    quantity: number,
+    taxRate: TaxRate,
+    net: number,
+    tax: number,
+    gross: number,
+}
+
+interface InvoiceInfo {
+    invoiceId: UUID,
+    type: InvoiceType,
+    /** e.g., "FR 2022A/1" */
+    documentNumber: string,
+    /** Unique document code, printed on the document. */
+    atcud: string,
+    /** Signature of the document, chained with the previous document of the series. */
+    hash: string,
+    saleId: UUID,
+    locationId: UUID,
+    customerNif?: Nif,
+    /** The invoice a credit note refers to. */
+    creditedInvoiceId?: UUID,
+    /** Why a credit note was issued. */
+    reason?: string,
+    /** Date of issue, in Lisbon (e.g., "2022-09-01"). */
+    issueDate: string,
+    createdAt: Date,
+    net: number,
+    tax: number,
+    gross: number,
+    lines: InvoiceLineInfo[],
+}
+
+interface InvoiceSeriesInfo {
+    seriesId: UUID,
+    locationId: UUID,
+    year: number,
+    type: InvoiceType,
+    code: string,
+    validationCode?: string,
+    /** Number of the last document issued. */
+    lastNumber: number,
+}
+
+/** JSON response format for the "GET /invoices" endpoint. */
+interface GetInvoicesResult {
+    status: 200,
+    data: InvoiceInfo[]
+}
+
+/** JSON response format for the "GET /invoices/{invoiceId}" endpoint. */
+interface GetInvoiceResult {
+    status: 200,
+    data: InvoiceInfo
+}
+
+/** JSON response format for the "GET /invoices/series" endpoint. */
+interface GetInvoiceSeriesResult {
+    status: 200,
+    data: InvoiceSeriesInfo[]
+}
+
+/** JSON response format for the "POST /invoices/series" endpoint. */
+interface CreateInvoiceSeriesResult {
+    status: 201,
+    data: InvoiceSeriesInfo
+}
@@ -0,0 +1,322 @@
+/**
+ * Closes a location's sales period (e.g., at the end of the day). The closing includes every sale of the location
+ * not included in a previous closing, so sales uploaded late or confirmed after a closing go to the next one.
+ * Cancellations and refunds are included in the period when they happened.
+ * The report is stored with the closing and never recalculated, so reprints always match the original.
+ */
+import { col, fn, Op, Transaction, WhereOptions } from "sequelize";
+import { UUID } from "../common/types";
+import { receipts as receiptsConfig } from "../config.json";
+import { SaleItem } from "../sales/saleItemModel";
+import { Sale, SaleStatus } from "../sales/saleModel";
+import { PaymentMethod, SalePayment } from "../sales/salePaymentModel";
+import { SaleReturn } from "../sales/saleReturnModel";
+import { Closing } from "./closingModel";
+
+/** Amounts in euro cents. */
+export interface ClosingPaymentTotal {
+    method: PaymentMethod,
+    /** Number of payments. */
+    payments: number,
+    /** Amount applied to the sales. */
+    amount: number,
+    tendered: number,
+    change: number,
+}
+
+export interface ClosingProductTotal {
+    productId: UUID,
+    name: string,
+    quantity: number,
+    total: number,
+}
+
+export interface ClosingSellerTotal {
+    sellerId: UUID,
+    name: string,
+    sales: number,
+    total: number,
+}
+
+export interface ClosingCancellation {
+    saleId: UUID,
+    cancelledById?: UUID,
+    reason: string,
+    cancelledAt: Date,
+    /** The sale's total, minus what was refunded before the cancellation. */
+    total: number,
+}
+
+/** The totals of a closed period. Amounts in euro cents. */
+export interface ClosingReport {
+    /** Number of completed sales. */
+    sales: number,
+    subtotal: number,
+    discount: number,
+    total: number,
+    payments: ClosingPaymentTotal[],
+    products: ClosingProductTotal[],
+    sellers: ClosingSellerTotal[],
+    cancellations: ClosingCancellation[],
+    /** Items returned during the period. */
+    refunds: {
+        returns: number,
+        amount: number,
+    },
+}
+
+// Rows of the report's aggregate queries. Postgres returns COUNT and SUM over integers as numeric strings.
+
+interface SalesTotalsRow {
+    sales: string,
+    subtotal: string,
+    discount: string,
+    total: string,
+}
+
+interface PaymentTotalRow {
+    method: PaymentMethod,
+    payments: string,
+    amount: string,
+    tendered: string,
+    change: string,
+}
+
+interface ProductTotalRow {
+    productId: UUID,
+    name: string,
+    quantity: string,
+    total: string,
+}
+
+interface SellerTotalRow {
+    sellerId: UUID,
+    name: string,
+    sales: string,
+    total: string,
+}
+
+interface RefundTotalsRow {
+    returns: string,
+    amount: string,
+}
+
+const LINE_WIDTH: number = receiptsConfig.lineWidth;
+
+/**
+ * Closes the location's current period. Must run in a Repeatable Read transaction, so the report and
+ * the sales marked as closed are the same.
+ *
+ * @param locationId The location's unique identifier.
+ * @param userId The user closing the period.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the closing or rejected with an Error.
+ * Rejected with a UniqueConstraintError if the location was closed concurrently.
+ */
+export async function closePeriod(locationId: UUID, userId: UUID, transaction: Transaction): Promise<Closing> {
+    const previous = await Closing.findOne({
+        where: {locationId},
+        order: [["number", "desc"]],
+        transaction,
+    });
+
+    const periodStart: Date | null = previous?.createdAt || null;
+    const periodEnd = new Date();
+    const openSales: WhereOptions = {locationId: locationId, closingId: null};
+    const completedSales: WhereOptions = {...openSales, status: SaleStatus.COMPLETED};
+    const period = (periodStart != null)
+        ? {[Op.gt]: periodStart, [Op.lte]: periodEnd}
+        : {[Op.lte]: periodEnd};
+
+    const [ totals ] = await Sale.findAll({
+        raw: true,
+        attributes: [
+            [fn("COUNT", col("saleId")), "sales"],
+            [fn("COALESCE", fn("SUM", col("subtotalPrice")), 0), "subtotal"],
+            [fn("COALESCE", fn("SUM", col("discount")), 0), "discount"],
+            [fn("COALESCE", fn("SUM", col("totalPrice")), 0), "total"],
+        ],
+        where: completedSales,
+        transaction,
+    }) as unknown as SalesTotalsRow[];
+
+    const payments = await SalePayment.findAll({
+        raw: true,
+        attributes: [
+            "method",
+            [fn("COUNT", col("paymentId")), "payments"],
+            [fn("SUM", col("amount")), "amount"],
+            [fn("SUM", col("tendered")), "tendered"],
+            [fn("SUM", col("change")), "change"],
+        ],
+        include: {association: SalePayment.associations.sale, attributes: [], where: completedSales},
+        group: ["method"],
+        order: [["method", "asc"]],
+        transaction,
+    }) as unknown as PaymentTotalRow[];
+
+    const products = await SaleItem.findAll({
+        raw: true,
+        attributes: [
+            [col("SaleItem.productId"), "productId"],
+            [col("product.name"), "name"],
+            [fn("SUM", col("SaleItem.quantity")), "quantity"],
+            [fn("SUM", col("SaleItem.total")), "total"],
+        ],
+        include: [
+            {association: SaleItem.associations.sale, attributes: [], where: completedSales},
+            {association: SaleItem.associations.product, attributes: []},
+        ],
+        group: [col("SaleItem.productId"), col("product.name")],
+        order: [[col("product.name"), "asc"]],
+        transaction,
+    }) as unknown as ProductTotalRow[];
+
+    const sellers = await Sale.findAll({
+        raw: true,
+        attributes: [
+            [col("Sale.sellerId"), "sellerId"],
+            [col("seller.name"), "name"],
+            [fn("COUNT", col("Sale.saleId")), "sales"],
+            [fn("SUM", col("Sale.totalPrice")), "total"],
+        ],
+        where: completedSales,
+        include: {association: Sale.associations.seller, attributes: []},
+        group: [col("Sale.sellerId"), col("seller.name")],
+        order: [[col("seller.name"), "asc"]],
+        transaction,
+    }) as unknown as SellerTotalRow[];
+
+    const cancellations: Sale[] = await Sale.findAll({
+        attributes: ["saleId", "cancelledById", "cancelReason", "cancelledAt", "totalPrice", "refundedPrice"],
+        where: {locationId: locationId, status: SaleStatus.CANCELLED, cancelledAt: period},
+        order: [["cancelledAt", "asc"]],
+        transaction,
+    });
+
+    const [ refunds ] = await SaleReturn.findAll({
+        raw: true,
+        attributes: [
+            [fn("COUNT", col("returnId")), "returns"],
+            [fn("COALESCE", fn("SUM", col("amount")), 0), "amount"],
+        ],
+        where: {createdAt: period},
+        include: {association: SaleReturn.associations.sale, attributes: [], where: {locationId: locationId}},
+        transaction,
+    }) as unknown as RefundTotalsRow[];
+
+    const report: ClosingReport = {
+        sales: Number(totals.sales),
+        subtotal: Number(totals.subtotal),
+        discount: Number(totals.discount),
+        total: Number(totals.total),
+        payments: payments.map(row => ({
+            method: row.method,
+            payments: Number(row.payments),
+            amount: Number(row.amount),
+            tendered: Number(row.tendered),
+            change: Number(row.change),
+        })),
+        products: products.map(row => ({
+            productId: row.productId,
+            name: row.name,
+            quantity: Number(row.quantity),
+            total: Number(row.total),
+        })),
+        sellers: sellers.map(row => ({
+            sellerId: row.sellerId,
+            name: row.name,
+            sales: Number(row.sales),
+            total: Number(row.total),
+        })),
+        cancellations: cancellations.map(sale => ({
+            saleId: sale.saleId,
+            cancelledById: sale.cancelledById || undefined,
+            reason: sale.cancelReason || "",
+            cancelledAt: sale.cancelledAt!!,
+            total: Number(sale.totalPrice) - Number(sale.refundedPrice),
+        })),
+        refunds: {
+            returns: Number(refunds.returns),
+            amount: Number(refunds.amount),
+        },
+    };
+
+    const closing = await Closing.create(
+        {
+            locationId: locationId,
+            userId: userId,
+            number: (previous?.number || 0) + 1,
+            periodStart: periodStart,
+            report: report,
+            createdAt: periodEnd,
+        },
+        {transaction}
+    );
+
+    // Later sales start the next period.
+    await Sale.update(
+        {closingId: closing.closingId},
+        {where: {...openSales, status: [SaleStatus.COMPLETED, SaleStatus.CANCELLED]}, transaction, silent: true}
+    );
+
+    return closing;
+}
+
+// ------------------------------ Plain Text ------------------------------ //
+
+function formatMoney(cents: number): string {
+    return `${(Number(cents) / 100).toFixed(2)} €`;
+}
+
+function formatDate(date: Date | string): string {
+    return new Date(date).toLocaleString("sv-SE", {timeZone: "Europe/Lisbon"});
+}
+
+function justify(left: string, right: string): string {
+    const padding = Math.max(1, LINE_WIDTH - left.length - right.length);
+    return left + " ".repeat(padding) + right;
+}
+
+/**
+ * Renders the closing's report as plain text, for thermal printers.
+ *
+ * @param closing The closing.
+ * @param address The location's address.
+ * @returns The rendered report.
+ */
+export function renderClosing(closing: Closing, address: string): string {
+    const report = closing.report;
+    const separator = "-".repeat(LINE_WIDTH);
+    const lines: string[] = [
+        `Closing #${closing.number}`,
+        address,
+        justify("From", (closing.periodStart != null) ? formatDate(closing.periodStart) : "-"),
+        justify("To", formatDate(closing.createdAt)),
+        separator,
+        justify("Sales", String(report.sales)),
+        justify("Subtotal", formatMoney(report.subtotal)),
+        justify("Discount", formatMoney(-report.discount)),
+        justify("Total", formatMoney(report.total)),
+        justify(`Refunds (${report.refunds.returns})`, formatMoney(-report.refunds.amount)),
+        separator,
+        "Payments",
+        ...report.payments.map(p => justify(`  ${p.method.toUpperCase()} (${p.payments})`, formatMoney(p.amount))),
+        separator,
+        "Products",
+        ...report.products.map(p => justify(`  ${p.quantity} x ${p.name}`, formatMoney(p.total))),
+        separator,
+        "Sellers",
+        ...report.sellers.map(s => justify(`  ${s.name} (${s.sales})`, formatMoney(s.total))),
+    ];
+
+    if (report.cancellations.length > 0) {
+        lines.push(separator, "Cancellations");
+        for (const c of report.cancellations) {
+            lines.push(justify(`  ${formatDate(c.cancelledAt)}`, formatMoney(-c.total)), `  ${c.reason}`);
+        }
+    }
+    lines.push(separator);
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,68 @@
+/**
+ * Festival venues only operate on some days and hours. Dates and times are in Lisbon time,
+ * and a period that closes after midnight belongs to the day it opened.
+ */
+import { Location } from "./locationModel";
+import { LocationType, OpeningHours, OpeningPeriod } from "./types";
+
+const LOCATION_TIMEZONE = "Europe/Lisbon";
+
+const WEEKDAYS: (keyof OpeningHours)[] = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * @param location The location.
+ * @param date The date. Defaults to now.
+ * @returns True if the location sells on the date, i.e., it isn't a warehouse, it's active and it's open.
+ */
+export function isOpen(location: Location, date: Date = new Date()): boolean {
+    return location.type != LocationType.WAREHOUSE
+        && isActiveOn(location, getLocalDate(date))
+        && isWithinOpeningHours(location.openingHours, date);
+}
+
+/**
+ * @param location The location.
+ * @param day A day, e.g., "2022-09-01".
+ * @returns True if the day is within the location's active date range.
+ */
+export function isActiveOn(location: Location, day: string): boolean {
+    return (location.activeFrom == null || location.activeFrom <= day)
+        && (location.activeUntil == null || day <= location.activeUntil);
+}
+
+/**
+ * @param date A date.
+ * @returns The day in Lisbon, e.g., "2022-09-01".
+ */
+export function getLocalDate(date: Date): string {
+    return date.toLocaleDateString("sv-SE", {timeZone: LOCATION_TIMEZONE});
+}
+
+/**
+ * @param period A period when the location is open.
+ * @returns True if the period closes on the next day.
+ */
+export function isOvernight(period: OpeningPeriod): boolean {
+    return period.closes <= period.opens;
+}
+
+function isWithinOpeningHours(openingHours: OpeningHours | null, date: Date): boolean {
+    if (openingHours == null) {
+        return true;
+    }
+
+    // e.g., "Tuesday 21:30"
+    const [ weekday, time ] = date.toLocaleString("en-GB", {
+        timeZone: LOCATION_TIMEZONE, weekday: "long", hour: "2-digit", minute: "2-digit", hourCycle: "h23"
+    }).split(" ");
+    const today = WEEKDAYS.findIndex(day => day == weekday.toLowerCase());
+    const yesterday = WEEKDAYS[(today + 6) % 7];
+
+    const openToday = (openingHours[WEEKDAYS[today]] || []).some(period =>
+        period.opens <= time && (isOvernight(period) || time < period.closes)
+    );
+    const openSinceYesterday = (openingHours[yesterday] || []).some(period =>
+        isOvernight(period) && time < period.closes
+    );
+    return openToday || openSinceYesterday;
+}
@@ -0,0 +1,101 @@
+import { Association, BelongsToGetAssociationMixin, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { registerAssociations, registerModel } from "../sequelize";
+import { Sale } from "../sales/saleModel";
+import { User } from "../users/userModel";
+import { ClosingReport } from "./ClosingService";
+import { Location } from "./locationModel";
+
+export class Closing extends Model<InferAttributes<Closing>, InferCreationAttributes<Closing>> {
+    declare closingId: CreationOptional<UUID>;
+    declare locationId: ForeignKey<UUID>;
+    declare userId: ForeignKey<UUID>;
+    declare number: number;
+    declare periodStart: Date | null;
+    declare report: ClosingReport;
+    declare createdAt: CreationOptional<Date>;
+
+    declare getLocation: BelongsToGetAssociationMixin<Location>;
+    declare getUser: BelongsToGetAssociationMixin<User>;
+
+    // Eager loaded properties
+    declare location?: NonAttribute<Location>;
+    declare user?: NonAttribute<User>;
+    declare sales?: NonAttribute<Sale[]>;
+
+    declare static associations: {
+        location: Association<Closing, Location>,
+        user: Association<Closing, User>,
+        sales: Association<Closing, Sale>,
+    }
+}
+
+registerModel(initClosingModel);
+registerAssociations(initClosingAssociations);
+
+async function initClosingModel(sequelize: Sequelize): Promise<void> {
+    Closing.init(
+        {
+            closingId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            locationId: {
+                type: DataTypes.UUID,
+                allowNull: false,
+            },
+            // The user who closed the period.
+            userId: {
+                type: DataTypes.UUID,
+                allowNull: false,
+            },
+            // Sequential number within the location.
+            number: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 1,
+                }
+            },
+            // The previous closing's date. Null for the location's first closing.
+            periodStart: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            // Snapshot of the period's totals. Never updated.
+            report: {
+                type: DataTypes.JSONB,
+                allowNull: false,
+            },
+            // End of the period.
+            createdAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "closing",
+            timestamps: true,
+            updatedAt: false,
+            indexes: [
+                {unique: true, fields: ["locationId", "number"]}
+            ],
+            // Closings are immutable.
+            hooks: {
+                beforeUpdate: () => { throw new Error("Closings can't be updated."); },
+                beforeDestroy: () => { throw new Error("Closings can't be deleted."); },
+            }
+        }
+    )
+}
+
+async function initClosingAssociations(): Promise<void> {
+    Closing.belongsTo(Location, {as: "location", foreignKey: "locationId"});
+    Closing.belongsTo(User, {as: "user", foreignKey: "userId"});
+    Closing.hasMany(Sale, {as: "sales", foreignKey: "closingId"});
+}
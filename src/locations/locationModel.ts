@@ -2,14 +2,24 @@ import { Association, BelongsToManyAddAssociationMixin, BelongsToManyGetAssociat
 import { UUID } from "../common/types";
 import { Product } from "../products/productModel";
 import { STOCK_LOCATION_FK, STOCK_PRODUCT_FK, Stock } from "../products/stockModel";
-import { registerAssociations, registerModel } from "../sequelize";
+import { registerAssociations, registerMigration, registerModel } from "../sequelize";
+import { LocationType, OpeningHours } from "./types";
 
 registerModel(initLocationModel);
 registerAssociations(initLocationAssociations);
+registerMigration(migrateLocations);
 
 export class Location extends Model<InferAttributes<Location>, InferCreationAttributes<Location>> {
     declare locationId: CreationOptional<UUID>;
     declare address: string;
+    declare name: string;
+    declare type: CreationOptional<LocationType>;
+    declare openingHours: CreationOptional<OpeningHours | null>;
+    declare activeFrom: CreationOptional<string | null>;
+    declare activeUntil: CreationOptional<string | null>;
+    declare latitude: CreationOptional<number | null>;
+    declare longitude: CreationOptional<number | null>;
+    declare archivedAt: CreationOptional<Date | null>;
 
     declare getProducts: BelongsToManyGetAssociationsMixin<Product>;
     declare addProduct: BelongsToManyAddAssociationMixin<Product, Product["productId"]>;
@@ -40,6 +50,52 @@ async function initLocationModel(sequelize: Sequelize): Promise<void> {
                 unique: true,
                 allowNull: false
             },
+            // Display name.
+            name: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            type: {
+                type: DataTypes.ENUM,
+                allowNull: false,
+                values: Object.values(LocationType),
+                defaultValue: LocationType.CINEMA,
+            },
+            // Null if the location has no fixed hours.
+            openingHours: {
+                type: DataTypes.JSONB,
+                allowNull: true,
+            },
+            // First and last days the location operates (e.g., a pop-up desk during the festival). Null if unbounded.
+            activeFrom: {
+                type: DataTypes.DATEONLY,
+                allowNull: true,
+            },
+            activeUntil: {
+                type: DataTypes.DATEONLY,
+                allowNull: true,
+            },
+            latitude: {
+                type: DataTypes.DOUBLE,
+                allowNull: true,
+                validate: {
+                    min: -90,
+                    max: 90,
+                }
+            },
+            longitude: {
+                type: DataTypes.DOUBLE,
+                allowNull: true,
+                validate: {
+                    min: -180,
+                    max: 180,
+                }
+            },
+            // Archived locations are hidden and don't sell. Null if not archived.
+            archivedAt: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
         },
         {
             sequelize: sequelize,
@@ -61,4 +117,11 @@ async function initLocationAssociations(): Promise<void> {
         as: "stock",
         foreignKey: STOCK_LOCATION_FK
     });
-}
\ No newline at end of file
+}
+
+/**
+ * Locations created before they had a name are named after their address.
+ */
+async function migrateLocations(sequelize: Sequelize): Promise<void> {
+    await sequelize.query(`UPDATE "location" SET "name" = "address" WHERE "name" IS NULL`);
+}
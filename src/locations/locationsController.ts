@@ -1,19 +1,39 @@
-import { ForeignKeyConstraintError, InferCreationAttributes, Transaction, UniqueConstraintError } from "sequelize";
-import { Body, Controller, Get, Patch, Path, Post, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
-import { BadRequestError, ConflitError, AppErrorCode, NotFoundError, AppError, AuthenticationErrorResponse, ForbiddenErrorResponse, ServerErrorResponse, BadRequestErrorResponse, ConflitErrorResponse } from "../common/errors";
+import { ForeignKeyConstraintError, Op, Transaction, UniqueConstraintError } from "sequelize";
+import { Readable } from "stream";
+import { Body, Controller, Delete, Get, Header, Patch, Path, Post, Query, Request, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
+import { BadRequestError, ConflitError, AppErrorCode, NotFoundError, AppError, AuthenticationErrorResponse, ForbiddenErrorResponse, ServerErrorResponse, BadRequestErrorResponse, ConflitErrorResponse, NotFoundErrorResponse } from "../common/errors";
 import { UUID } from "../common/types";
 import { Role } from "../common/roles";
+import { Product } from "../products/productModel";
 import { Stock } from "../products/stockModel";
 import { Price, ProductCategory } from "../products/types";
-import { SecurityScheme } from "../security/authorization";
+import { AuthRequest, SecurityScheme } from "../security/authorization";
+import { runIdempotent } from "../idempotency/IdempotencyService";
+import { retryTransaction } from "../sequelize";
 import { Location } from "./locationModel";
+import { getLocalDate } from "./LocationService";
+import { Latitude, LocationType, Longitude, OpeningHours } from "./types";
+import { Closing } from "./closingModel";
+import { Sale } from "../sales/saleModel";
+import { closePeriod, ClosingReport, renderClosing } from "./ClosingService";
+import { setStock, StockQuantity } from "../stock/StockService";
+import { MovementType, StockMovement } from "../stock/stockMovementModel";
+import { StockTransfer } from "../stock/stockTransferModel";
+import { StockTake } from "../stock/stockTakeModel";
 
 const TAG_LOCATIONS = "Locations";
 
 @Route("locations")
 export class LocationsController extends Controller {
     /**
+     * Archived locations aren't returned, unless requested.
+     * 
      * @summary Retrieve a list of locations.
+     * 
+     * @param archived If true, archived locations are also returned.
+     * 
+     * @param pointOfSale If true, only locations that may sell today are returned, i.e., not warehouses
+     * and within their active date range.
      */
     @Get()
     @Tags(TAG_LOCATIONS)
@@ -23,8 +43,21 @@ export class LocationsController extends Controller {
     @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
     @Response<ServerErrorResponse>(500, "Internal Server Error.")
     public async getLocations(
+        @Query() archived: boolean = false,
+        @Query() pointOfSale: boolean = false,
     ): Promise<SearchLocationsResult> {
-        const result: Location[] = await Location.findAll();
+        const today: string = getLocalDate(new Date());
+        const result: Location[] = await Location.findAll({
+            where: {
+                ...(archived) ? {} : {archivedAt: null},
+                ...(pointOfSale) ? {
+                    type: {[Op.ne]: LocationType.WAREHOUSE},
+                    activeFrom: {[Op.or]: [null, {[Op.lte]: today}]},
+                    activeUntil: {[Op.or]: [null, {[Op.gte]: today}]},
+                } : {},
+            },
+            order: [["name", "ASC"]],
+        });
         const locations: LocationInfo[] = result.map(toLocationInfo);
 
         return {
@@ -35,7 +68,8 @@ export class LocationsController extends Controller {
 
     /** 
      * Creates a Location and returns its unique identifier.
-     * The location's address must be unique.
+     * The location's address must be unique. The name defaults to the address.
+     * Without opening hours or an active date range, the location may always sell.
      * 
      * @summary Create a new location.
      */
@@ -61,10 +95,18 @@ export class LocationsController extends Controller {
     public async createLocation(
         @Body() body: CreateLocationParams,
     ): Promise<CreateLocationResult> {
-        const { address } = body;
+        const { address, name, type, openingHours, activeFrom, activeUntil, latitude, longitude } = body;
+
+        const location = Location.build({
+            address, name: name ?? address, type, openingHours, activeFrom, activeUntil, latitude, longitude
+        });
+        const invalid = checkLocation(location);
+        if (invalid != null) {
+            return Promise.reject(invalid);
+        }
         
         try {
-            const location = await Location.create({address});
+            await location.save();
             return {
                 status: 201,
                 data: location.locationId
@@ -133,13 +175,196 @@ export class LocationsController extends Controller {
         };
     }
 
+    /**
+     * Updates the location's information. Only the given fields are updated, and null clears
+     * the opening hours, active dates or coordinates. The location's address must be unique.
+     * 
+     * @summary Update a location.
+     * 
+     * @param locationId The location's unique identifier.
+     */
+    @Patch("{locationId}")
+    @Tags(TAG_LOCATIONS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully updated the location.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Location not found.")
+    @Response<ConflitErrorResponse>(409, "Can't update the location.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async updateLocation(
+        @Path() locationId: UUID,
+        @Body() body: UpdateLocationParams,
+    ): Promise<UpdateLocationResult> {
+        const { address, name, type, openingHours, activeFrom, activeUntil, latitude, longitude } = body;
+
+        const location = await Location.findByPk(locationId);
+        if (location == null) {
+            return Promise.reject(locationNotFoundError(locationId));
+        }
+
+        location.set({
+            ...(address != null) ? {address: address} : {},
+            ...(name != null) ? {name: name} : {},
+            ...(type != null) ? {type: type} : {},
+            ...(openingHours !== undefined) ? {openingHours: openingHours} : {},
+            ...(activeFrom !== undefined) ? {activeFrom: activeFrom} : {},
+            ...(activeUntil !== undefined) ? {activeUntil: activeUntil} : {},
+            ...(latitude !== undefined) ? {latitude: latitude} : {},
+            ...(longitude !== undefined) ? {longitude: longitude} : {},
+        });
+        const invalid = checkLocation(location);
+        if (invalid != null) {
+            return Promise.reject(invalid);
+        }
+
+        try {
+            await location.save();
+        } catch (err) {
+            // Duplicate address
+            if (err instanceof UniqueConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't update the location.",
+                    code: AppErrorCode.DUPLICATED,
+                    fields: {
+                        "body.address": {
+                            message: "Address not unique.",
+                            value: address,
+                        }
+                    }
+                }));
+            }
+            throw err;
+        }
+
+        return {
+            status: 200,
+            data: toLocationInfo(location)
+        };
+    }
+
+    /**
+     * Deletes a location that was never used. Locations with sales or stock can't be deleted,
+     * and neither can locations with stock history (e.g., transfers or stock-takes). Archive them instead.
+     * 
+     * @summary Delete a location.
+     * 
+     * @param locationId The location's unique identifier.
+     */
+    @Delete("{locationId}")
+    @Tags(TAG_LOCATIONS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(204, "Successfully deleted the location.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Location not found.")
+    @Response<ConflitErrorResponse>(409, "Can't delete the location.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async deleteLocation(
+        @Path() locationId: UUID,
+    ): Promise<void> {
+        try {
+            const result = await Location.sequelize!!.transaction(
+                {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+                async (transaction) => {
+                    const location = await Location.findByPk(locationId, {transaction});
+                    if (location == null) {
+                        return locationNotFoundError(locationId);
+                    }
+
+                    const sales = await Sale.count({where: {locationId}, transaction});
+                    if (sales > 0) {
+                        return new ConflitError({
+                            message: `Can't delete the location. It has ${sales} sale(s). Archive it instead.`
+                        });
+                    }
+
+                    const stock = await Stock.count({where: {locationId, quantity: {[Op.ne]: 0}}, transaction});
+                    if (stock > 0) {
+                        return new ConflitError({
+                            message: `Can't delete the location. It has stock of ${stock} product(s). Transfer it or archive the location instead.`
+                        });
+                    }
+
+                    // The ledger, transfers and stock-takes keep referencing the location
+                    const history = await Promise.all([
+                        StockMovement.count({where: {locationId}, transaction}),
+                        StockTransfer.count({where: {[Op.or]: [{fromLocationId: locationId}, {toLocationId: locationId}]}, transaction}),
+                        StockTake.count({where: {locationId}, transaction}),
+                    ]);
+                    if (history.some(count => count > 0)) {
+                        return locationHistoryError();
+                    }
+
+                    await Stock.destroy({where: {locationId}, transaction});
+                    await location.destroy({transaction});
+                }
+            );
+
+            if (result instanceof AppError) {
+                return Promise.reject(result);
+            }
+
+        } catch (err) {
+            // Referenced concurrently
+            if (err instanceof ForeignKeyConstraintError) {
+                return Promise.reject(locationHistoryError());
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Archives a location. Archived locations are hidden from the list of locations and can't make new sales.
+     * 
+     * @summary Archive a location.
+     * 
+     * @param locationId The location's unique identifier.
+     */
+    @Post("{locationId}/archive")
+    @Tags(TAG_LOCATIONS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully archived the location.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Location not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async archiveLocation(
+        @Path() locationId: UUID,
+    ): Promise<UpdateLocationResult> {
+        return await setArchived(locationId, true);
+    }
+
+    /**
+     * @summary Unarchive a location.
+     * 
+     * @param locationId The location's unique identifier.
+     */
+    @Post("{locationId}/unarchive")
+    @Tags(TAG_LOCATIONS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully unarchived the location.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Location not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async unarchiveLocation(
+        @Path() locationId: UUID,
+    ): Promise<UpdateLocationResult> {
+        return await setArchived(locationId, false);
+    }
+
     /**
      * Updates the stock of a location with multiple products.
      * Existing stock of other prodcuts won't be modified unless part of the update.
+     * The quantities are absolute, for full recounts. To add or remove quantities, use "POST /stock/adjustments".
      * 
      * @summary Update the stock at a location.
      * 
      * @param locationId The location's unique identifier.
+     * @param idempotencyKey A unique key for this update, chosen by the client. Retrying with the same key
+     * doesn't repeat the update.
      */
     @Patch("{locationId}/stock")
     @Tags(TAG_LOCATIONS)
@@ -152,69 +377,372 @@ export class LocationsController extends Controller {
     @Response<ConflitErrorResponse>(409, "Can't update stock.")
     @Response<ServerErrorResponse>(500, "Internal Server Error.")
     public async updateLocationStock(
+        @Request() request: AuthRequest,
         @Path() locationId: UUID,
-        @Body() body: UpdateLocationStockParams
+        @Body() body: UpdateLocationStockParams,
+        @Header("Idempotency-Key") idempotencyKey?: string,
     ) : Promise<void> {
-        const { list } = body;
-        const productIds = list.map(item => item.productId);
-
-        // Sanity check. Don't allow repeated productId.
-        if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
-            return Promise.reject(new BadRequestError({
-                code: AppErrorCode.REQ_FORMAT,
-                message: "Repeated productId not allowed."
-            }));
-        }
+        const route = "PATCH /locations/{locationId}/stock";
+        return await runIdempotent(
+            {key: idempotencyKey, userId: request.auth.userId, route: route, payload: {locationId, body}},
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            (transaction) => setLocationStock(locationId, body, request.auth.userId, transaction)
+        );
+    }
 
-        const toUpsert: InferCreationAttributes<Stock>[] = list.map<InferCreationAttributes<Stock>>(stock => ({
-            locationId: locationId,
-            productId: stock.productId,
-            quantity: stock.quantity
-        }));
+    /**
+     * Closes the location's current period (e.g., at the end of the day) and returns its report:
+     * the totals by payment method, product and seller of the sales since the previous closing,
+     * plus the cancellations and refunds. The report is stored and can't be changed.
+     * Sales made after the closing start the next period.
+     * 
+     * @summary Close the location's sales period.
+     * 
+     * @param locationId The location's unique identifier.
+     */
+    @Post("{locationId}/closings")
+    @Tags(TAG_LOCATIONS)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(201, "Successfully closed the period.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Location not found.")
+    @Response<ConflitErrorResponse>(409, "Can't close the period.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async createClosing(
+        @Request() request: AuthRequest,
+        @Path() locationId: UUID,
+    ): Promise<CreateClosingResult> {
+        const userId: UUID = request.auth.userId;
 
         try {
-            const result = await Location.sequelize!!.transaction(
+            // Sales may be marked closed while they're confirmed or cancelled. Start again if so.
+            const result = await retryTransaction(
+                Location.sequelize!!,
                 {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
-                async(t) => {
-                    const location = await Location.findByPk(locationId, {transaction: t});
-
-                    // Location doesn't exist
+                async (transaction) => {
+                    const location = await Location.findByPk(locationId, {transaction});
                     if (location == null) {
-                        return new NotFoundError({
-                            message: "Location doesn't exist.",
-                            code: AppErrorCode.NOT_FOUND,
-                            fields: {
-                                "locationId": {
-                                    message: "This locationId doesn't exist.",
-                                    value: locationId
-                                }
-                            }
-                        });
+                        return locationNotFoundError(locationId);
                     }
-
-                    await Stock.bulkCreate(toUpsert, {updateOnDuplicate: ["quantity"], transaction: t});
+                    return await closePeriod(locationId, userId, transaction);
                 }
             );
 
-            // Location doesn't exist
+            // Location not found
             if (result instanceof AppError) {
                 return Promise.reject(result);
             }
 
+            return {
+                status: 201,
+                data: toClosingInfo(result)
+            };
+
         } catch (err) {
-            // Error during upsert
-            if (err instanceof ForeignKeyConstraintError) {
+            // Closed at the same time by someone else
+            if (err instanceof UniqueConstraintError) {
                 return Promise.reject(new ConflitError({
-                    message: "Can't update location's stock. Some products don't exist."
+                    message: "Can't close the period. The location was closed at the same time.",
+                    code: AppErrorCode.DUPLICATED,
                 }));
             }
             throw err;
         }
     }
+
+    /**
+     * Returns the location's closings, most recent first.
+     * 
+     * @summary Retrieve the location's closings.
+     * 
+     * @param locationId The location's unique identifier.
+     * 
+     * @param limit Limit the number of closings returned. Minimum 1.
+     * @isInt limit Must be an integer >= 1.
+     * @minimum limit 1 minimum 1.
+     * 
+     * @param page Used for pagination. When limit is used, chunks of closings will be skipped.
+     * @isInt page Must be an integer >= 0.
+     * @minimum page 0 minimum 0.
+     */
+    @Get("{locationId}/closings")
+    @Tags(TAG_LOCATIONS)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the closings.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getClosings(
+        @Path() locationId: UUID,
+        @Query() limit: number = 10,
+        @Query() page: number = 0,
+    ): Promise<GetClosingsResult> {
+        const result = await Closing.findAll({
+            where: {locationId},
+            order: [["number", "desc"]],
+            limit: limit,
+            offset: page * limit,
+        });
+
+        return {
+            status: 200,
+            data: result.map(toClosingInfo)
+        };
+    }
+
+    /**
+     * @summary Retrieve a closing.
+     * 
+     * @param locationId The location's unique identifier.
+     * @param closingId The closing's unique identifier.
+     */
+    @Get("{locationId}/closings/{closingId}")
+    @Tags(TAG_LOCATIONS)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the closing.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Closing not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getClosing(
+        @Path() locationId: UUID,
+        @Path() closingId: UUID,
+    ): Promise<GetClosingResult> {
+        const result = await Closing.findOne({where: {closingId, locationId}});
+
+        if (result == null) {
+            return Promise.reject(closingNotFoundError(closingId));
+        }
+
+        return {
+            status: 200,
+            data: toClosingInfo(result)
+        };
+    }
+
+    /**
+     * Reprints the closing's report as plain text, for thermal printers.
+     * 
+     * @summary Reprint a closing.
+     * 
+     * @param locationId The location's unique identifier.
+     * @param closingId The closing's unique identifier.
+     */
+    @Get("{locationId}/closings/{closingId}/print")
+    @Tags(TAG_LOCATIONS)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully printed the closing.", ["text/plain"])
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Closing not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async printClosing(
+        @Path() locationId: UUID,
+        @Path() closingId: UUID,
+    ): Promise<Readable> {
+        const result = await Closing.findOne({
+            where: {closingId, locationId},
+            include: {association: Closing.associations.location, attributes: ["address"]},
+        });
+
+        if (result == null) {
+            return Promise.reject(closingNotFoundError(closingId));
+        }
+
+        this.setHeader("Content-Type", "text/plain; charset=utf-8");
+        return Readable.from([renderClosing(result, result.location?.address || locationId)]);
+    }
 }
 
 // ------------------------------ Helper Functions ------------------------------ //
 
+/**
+ * Sets the stock of a location, as described in "PATCH /locations/{locationId}/stock".
+ * 
+ * @param locationId The location's unique identifier.
+ * @param body The products and quantities.
+ * @param userId The unique identifier of the user updating the stock.
+ * @param parent The transaction to update the stock in. If missing, a new one is started.
+ * @returns A promise to be either resolved when the stock is updated or rejected with an Error.
+ */
+async function setLocationStock(
+    locationId: UUID,
+    body: UpdateLocationStockParams,
+    userId: UUID,
+    parent?: Transaction
+): Promise<void> {
+    const { list } = body;
+    const productIds = list.map(item => item.productId);
+
+    // Sanity check. Don't allow repeated productId.
+    if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Repeated productId not allowed."
+        }));
+    }
+
+    const toUpsert: StockQuantity[] = list.map(stock => ({
+        locationId: locationId,
+        productId: stock.productId,
+        quantity: stock.quantity
+    }));
+
+    try {
+        const result = await Location.sequelize!!.transaction(
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ, transaction: parent},
+            async(t) => {
+                const location = await Location.findByPk(locationId, {transaction: t});
+
+                // Location doesn't exist
+                if (location == null) {
+                    return new NotFoundError({
+                        message: "Location doesn't exist.",
+                        code: AppErrorCode.NOT_FOUND,
+                        fields: {
+                            "locationId": {
+                                message: "This locationId doesn't exist.",
+                                value: locationId
+                            }
+                        }
+                    });
+                }
+
+                // Bundles take their components' stock.
+                const bundles = await Product.count({
+                    where: {productId: productIds, category: ProductCategory.BUNDLE},
+                    transaction: t
+                });
+                if (bundles > 0) {
+                    return new ConflitError({
+                        message: "Can't update a bundle's stock. Update its components' stock instead."
+                    });
+                }
+
+                await setStock(toUpsert, {type: MovementType.COUNT, userId: userId}, t);
+            }
+        );
+
+        // Location doesn't exist
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+    } catch (err) {
+        // Error during upsert
+        if (err instanceof ForeignKeyConstraintError) {
+            return Promise.reject(new ConflitError({
+                message: "Can't update location's stock. Some products don't exist."
+            }));
+        }
+        throw err;
+    }
+}
+
+/**
+ * Archives or unarchives a location. Archiving an archived location keeps its original date.
+ * 
+ * @param locationId The location's unique identifier.
+ * @param archived Whether the location is archived.
+ * @returns A promise to be either resolved with the location or rejected with an Error.
+ */
+async function setArchived(locationId: UUID, archived: boolean): Promise<UpdateLocationResult> {
+    const location = await Location.findByPk(locationId);
+    if (location == null) {
+        return Promise.reject(locationNotFoundError(locationId));
+    }
+
+    if (archived != (location.archivedAt != null)) {
+        await location.update({archivedAt: (archived) ? new Date() : null});
+    }
+
+    return {
+        status: 200,
+        data: toLocationInfo(location)
+    };
+}
+
+/**
+ * Sanity checks the location's fields that depend on each other.
+ * 
+ * @param location The location to be saved.
+ * @returns A BadRequestError if a check fails, or null otherwise.
+ */
+function checkLocation(location: Location): BadRequestError | null {
+    if (location.activeFrom != null && location.activeUntil != null && location.activeFrom > location.activeUntil) {
+        return new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "The active date range ends before it starts.",
+            fields: {
+                "body.activeUntil": {
+                    message: "activeUntil must not be before activeFrom.",
+                    value: location.activeUntil
+                }
+            }
+        });
+    }
+
+    if ((location.latitude == null) != (location.longitude == null)) {
+        return new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Coordinates need both latitude and longitude.",
+            fields: {
+                [(location.latitude == null) ? "body.latitude" : "body.longitude"]: {
+                    message: "latitude and longitude must be set together.",
+                    value: null
+                }
+            }
+        });
+    }
+
+    return null;
+}
+
+function locationNotFoundError(locationId: UUID): NotFoundError {
+    return new NotFoundError({
+        message: "Location doesn't exist.",
+        code: AppErrorCode.NOT_FOUND,
+        fields: {
+            "locationId": {
+                message: "This locationId doesn't exist.",
+                value: locationId
+            }
+        }
+    });
+}
+
+function locationHistoryError(): ConflitError {
+    return new ConflitError({
+        message: "Can't delete the location. It has stock history (e.g., transfers or stock-takes). Archive it instead."
+    });
+}
+
+function closingNotFoundError(closingId: UUID): NotFoundError {
+    return new NotFoundError({
+        message: "Closing not found.",
+        code: AppErrorCode.NOT_FOUND,
+        fields: {
+            "closingId": {
+                message: "This closingId doesn't exist at this location.",
+                value: closingId
+            }
+        }
+    });
+}
+
+function toClosingInfo(closing: Closing): ClosingInfo {
+    return {
+        closingId: closing.closingId,
+        locationId: closing.locationId,
+        number: closing.number,
+        closedById: closing.userId,
+        periodStart: closing.periodStart || undefined,
+        periodEnd: closing.createdAt,
+        report: closing.report,
+    };
+}
+
 /**
  * Takes a Location and formats it into a LocationInfo. 
  * 
@@ -224,7 +752,7 @@ export class LocationsController extends Controller {
 function toLocationInfo(location: Location): LocationInfo {
     return {
         locationId: location.locationId,
-        address: location.address
+        ...toLocationDetails(location),
     }
 }
 
@@ -249,17 +777,68 @@ function toLocationInfo(location: Location): LocationInfo {
 
     return {
         locationId: location.locationId,
-        address: location.address,
+        ...toLocationDetails(location),
         stock: stock 
     }
 }
 
+function toLocationDetails(location: Location): Omit<LocationInfo, "locationId"> {
+    const hasCoordinates = location.latitude != null && location.longitude != null;
+
+    return {
+        address: location.address,
+        name: location.name,
+        type: location.type,
+        openingHours: location.openingHours || undefined,
+        activeFrom: location.activeFrom || undefined,
+        activeUntil: location.activeUntil || undefined,
+        coordinates: (hasCoordinates) ? {latitude: location.latitude!!, longitude: location.longitude!!} : undefined,
+        archivedAt: location.archivedAt || undefined,
+    }
+}
+
 // ------------------------------ Request Formats ------------------------------ //
 
 /** JSON request format for the "POST /locations" endpoint. */
  interface CreateLocationParams {
     /** @example "Some address" */
-    address: string
+    address: string,
+    /** @example "Cinema São Jorge" */
+    name?: string,
+    /** Defaults to "cinema". */
+    type?: LocationType,
+    /** If missing, the location has no fixed hours. */
+    openingHours?: OpeningHours,
+    /**
+     * First day the location operates, e.g., when a pop-up desk opens.
+     * @isDate activeFrom Must be a date like 'YYYY-MM-DD'.
+     */
+    activeFrom?: string,
+    /**
+     * Last day the location operates.
+     * @isDate activeUntil Must be a date like 'YYYY-MM-DD'.
+     */
+    activeUntil?: string,
+    /** Required with longitude. */
+    latitude?: Latitude,
+    /** Required with latitude. */
+    longitude?: Longitude,
+}
+
+/** JSON request format for the "PATCH /locations/{locationId}" endpoint. */
+interface UpdateLocationParams {
+    /** @example "Some address" */
+    address?: string,
+    /** @example "Cinema São Jorge" */
+    name?: string,
+    type?: LocationType,
+    openingHours?: OpeningHours | null,
+    /** @isDate activeFrom Must be a date like 'YYYY-MM-DD'. */
+    activeFrom?: string | null,
+    /** @isDate activeUntil Must be a date like 'YYYY-MM-DD'. */
+    activeUntil?: string | null,
+    latitude?: Latitude | null,
+    longitude?: Longitude | null,
 }
 
 interface LocationStock {
@@ -282,15 +861,43 @@ interface ProductInfo {
     quantity: number
 }
 
+interface Coordinates {
+    latitude: Latitude,
+    longitude: Longitude,
+}
+
 interface LocationInfo {
     locationId: UUID,
     address: string,
+    name: string,
+    type: LocationType,
+    /** Missing if the location has no fixed hours. */
+    openingHours?: OpeningHours,
+    /** First day the location operates, e.g., "2022-09-01". Missing if unbounded. */
+    activeFrom?: string,
+    /** Last day the location operates. Missing if unbounded. */
+    activeUntil?: string,
+    coordinates?: Coordinates,
+    /** Missing if the location isn't archived. */
+    archivedAt?: Date,
 }
 
 interface LocationWithStock extends LocationInfo {
     stock: ProductInfo[]
 }
 
+interface ClosingInfo {
+    closingId: UUID,
+    locationId: UUID,
+    /** Sequential number within the location. */
+    number: number,
+    closedById: UUID,
+    /** The previous closing's date. Missing for the location's first closing. */
+    periodStart?: Date,
+    periodEnd: Date,
+    report: ClosingReport,
+}
+
 /** JSON response format for the "GET /locations" endpoint. */
 interface SearchLocationsResult {
     status: 200,
@@ -307,4 +914,28 @@ interface CreateLocationResult {
 interface GetLocationByIdResult {
     status: 200,
     data: LocationWithStock
-}
\ No newline at end of file
+}
+
+/** JSON response format for the "PATCH /locations/{locationId}" endpoint. */
+interface UpdateLocationResult {
+    status: 200,
+    data: LocationInfo
+}
+
+/** JSON response format for the "POST /locations/{locationId}/closings" endpoint. */
+interface CreateClosingResult {
+    status: 201,
+    data: ClosingInfo
+}
+
+/** JSON response format for the "GET /locations/{locationId}/closings" endpoint. */
+interface GetClosingsResult {
+    status: 200,
+    data: ClosingInfo[]
+}
+
+/** JSON response format for the "GET /locations/{locationId}/closings/{closingId}" endpoint. */
+interface GetClosingResult {
+    status: 200,
+    data: ClosingInfo
+}
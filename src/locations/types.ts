@@ -0,0 +1,55 @@
+/** The available Location types */
+export enum LocationType {
+    CINEMA = "cinema",
+    POPUP = "popup",
+    /** Only holds stock. Doesn't sell. */
+    WAREHOUSE = "warehouse",
+}
+
+/**
+ * Time of day, in Lisbon time.
+ *
+ * @pattern ^([01][0-9]|2[0-3]):[0-5][0-9]$
+ * @example "14:30"
+ */
+export type Time = string;
+
+/**
+ * A period when the location is open. If it closes at or before it opens, it closes on the next day
+ * (e.g., "00:00" to "00:00" is open all day).
+ */
+export interface OpeningPeriod {
+    /** @example "14:00" */
+    opens: Time,
+    /** @example "02:00" */
+    closes: Time,
+}
+
+/** The location's opening hours on each day of the week. Days without any period are closed. */
+export interface OpeningHours {
+    monday?: OpeningPeriod[],
+    tuesday?: OpeningPeriod[],
+    wednesday?: OpeningPeriod[],
+    thursday?: OpeningPeriod[],
+    friday?: OpeningPeriod[],
+    saturday?: OpeningPeriod[],
+    sunday?: OpeningPeriod[],
+}
+
+/**
+ * Latitude, in degrees.
+ *
+ * @minimum -90 minimum -90.
+ * @maximum 90 maximum 90.
+ * @example 38.7223
+ */
+export type Latitude = number;
+
+/**
+ * Longitude, in degrees.
+ *
+ * @minimum -180 minimum -180.
+ * @maximum 180 maximum 180.
+ * @example -9.1393
+ */
+export type Longitude = number;
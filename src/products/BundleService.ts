@@ -0,0 +1,162 @@
+/**
+ * Bundles are products made of other products (their components), sold at a combined price.
+ * Bundles don't have stock of their own. Selling a bundle takes the stock of each component,
+ * and the bundle's price is split across the components, so revenue is always reported per component.
+ */
+import { Includeable, Transaction } from "sequelize";
+import { UUID } from "../common/types";
+import { ReservedStock } from "../sales/ReservationService";
+import { BundleComponent } from "./bundleComponentModel";
+import { Product } from "./productModel";
+import { ProductCategory } from "./types";
+
+export interface BundleStock {
+    locationId: UUID,
+    /** Number of complete bundles the components' available stock can make. */
+    quantity: number,
+}
+
+export interface BundleListItem {
+    productId: UUID,
+    quantity: number,
+}
+
+export interface BundleDiscount {
+    productId: UUID,
+    discount: number,
+}
+
+/**
+ * @returns The include option for the components of a product, and their stock.
+ */
+export function includeComponents(): Includeable {
+    return {
+        required: false,
+        association: Product.associations.components,
+        attributes: ["productId", "quantity"],
+        include: [
+            {
+                association: BundleComponent.associations.product,
+                attributes: ["productId", "name", "price"],
+                include: [
+                    {
+                        required: false,
+                        association: Product.associations.stock,
+                        attributes: ["locationId", "quantity"],
+                    }
+                ]
+            }
+        ]
+    };
+}
+
+/**
+ * @param products Products, with their components.
+ * @returns The unique identifiers of the products and their components.
+ */
+export function withComponentIds(products: Product[]): UUID[] {
+    const productIds = products.flatMap(p => [p.productId, ...(p.components || []).map(c => c.productId)]);
+    return [...new Set(productIds)];
+}
+
+/**
+ * Calculates how many bundles are available at each location.
+ * Only locations with stock of every component are considered.
+ *
+ * @param bundle The bundle, with its components and their stock.
+ * @param reserved The reserved stock of the components (and possibly others).
+ * @returns The bundle's available quantity at each location.
+ */
+export function getBundleStock(bundle: Product, reserved: ReservedStock[] = []): BundleStock[] {
+    const components = bundle.components || [];
+    if (components.length == 0) {
+        return [];
+    }
+
+    const locationIds = (components[0].product?.stock || []).map(s => s.locationId);
+    return locationIds.reduce((acc: BundleStock[], locationId) => {
+        const quantities = components.map(component => {
+            const stock = component.product?.stock?.find(s => s.locationId == locationId);
+            if (stock == null) return null;
+            const held = reserved.find(r => r.productId == component.productId && r.locationId == locationId)?.quantity || 0;
+            return Math.floor(Math.max(stock.quantity - held, 0) / component.quantity);
+        });
+
+        if (quantities.every(q => q != null)) {
+            acc.push({locationId, quantity: Math.min(...quantities as number[])});
+        }
+        return acc;
+    }, []);
+}
+
+/**
+ * Fetches the bundles among the given products.
+ *
+ * @param productIds The products' unique identifiers.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the bundles and their components or rejected with an Error.
+ */
+export async function findBundles(productIds: UUID[], transaction?: Transaction): Promise<Product[]> {
+    return await Product.findAll({
+        attributes: ["productId", "price"],
+        where: {productId: productIds, category: ProductCategory.BUNDLE},
+        include: {association: Product.associations.components, attributes: ["productId", "quantity"]},
+        transaction,
+    });
+}
+
+/**
+ * Replaces the bundles in a list by their components. The quantities of the same product are added up.
+ *
+ * @param list The products and their quantities.
+ * @param bundles The bundles in the list, with their components.
+ * @returns The list without bundles.
+ */
+export function expandBundles(list: BundleListItem[], bundles: Product[]): BundleListItem[] {
+    const expanded: BundleListItem[] = [];
+    const add = (productId: UUID, quantity: number) => {
+        const entry = expanded.find(e => e.productId == productId);
+        if (entry != null) {
+            entry.quantity += quantity;
+        } else {
+            expanded.push({productId, quantity});
+        }
+    };
+
+    for (const item of list) {
+        const bundle = bundles.find(b => b.productId == item.productId);
+        if (bundle == null) {
+            add(item.productId, item.quantity);
+        } else {
+            bundle.components!!.forEach(c => add(c.productId, c.quantity * item.quantity));
+        }
+    }
+    return expanded;
+}
+
+/**
+ * Splits the price of the bundles across their components, proportionally to the components' prices.
+ * The difference is a discount on each component. A bundle never costs more than its components.
+ *
+ * @param bundle The bundle, with its components.
+ * @param quantity The number of bundles.
+ * @param getPrice Returns the unit price of a component.
+ * @returns The discount of each component, in the same order.
+ */
+export function calculateBundleDiscounts(
+    bundle: Product,
+    quantity: number,
+    getPrice: (productId: UUID) => number
+): BundleDiscount[] {
+    const components = bundle.components!!;
+    const values: number[] = components.map(c => getPrice(c.productId) * c.quantity * quantity);
+    const value: number = values.reduce((acc, v) => acc + v, 0);
+    const price: number = Math.min(bundle.price * quantity, value);
+
+    // The most valuable component takes the rounding remainder.
+    const shares: number[] = values.map(v => Math.floor(price * v / (value || 1)));
+    const maxIdx: number = values.indexOf(Math.max(...values));
+    shares[maxIdx] += price - shares.reduce((acc, s) => acc + s, 0);
+
+    return components.map((component, idx) => ({productId: component.productId, discount: values[idx] - shares[idx]}));
+}
@@ -0,0 +1,69 @@
+import { Association, BelongsToGetAssociationMixin, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
+import { UUID } from "../common/types";
+import { registerAssociations, registerModel } from "../sequelize";
+import { Product, PRODUCT_FK } from "./productModel";
+
+export const BUNDLE_FK = "bundleId";
+
+export class BundleComponent extends Model<InferAttributes<BundleComponent>, InferCreationAttributes<BundleComponent>> {
+    declare bundleId: ForeignKey<UUID>;
+    declare productId: ForeignKey<UUID>;
+    declare quantity: number;
+
+    /** Retrieve the bundle. */
+    declare getBundle: BelongsToGetAssociationMixin<Product>;
+    /** Retrieve the component's product. */
+    declare getProduct: BelongsToGetAssociationMixin<Product>;
+
+    // Eager loaded properties.
+    declare bundle?: NonAttribute<Product>;
+    declare product?: NonAttribute<Product>;
+
+    declare static associations: {
+        bundle: Association<BundleComponent, Product>;
+        product: Association<BundleComponent, Product>;
+    }
+}
+
+registerModel(initBundleComponentModel);
+registerAssociations(initBundleComponentAssociations);
+
+async function initBundleComponentModel(sequelize: Sequelize): Promise<void> {
+    BundleComponent.init(
+        {
+            bundleId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            productId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            // Units of the product in each bundle.
+            quantity: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 1,
+                }
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "bundle_component",
+            timestamps: false,
+        }
+    )
+}
+
+async function initBundleComponentAssociations(): Promise<void> {
+    BundleComponent.belongsTo(Product, {
+        foreignKey: BUNDLE_FK,
+        as: "bundle"
+    });
+
+    BundleComponent.belongsTo(Product, {
+        foreignKey: PRODUCT_FK,
+        as: "product"
+    });
+}
@@ -2,10 +2,11 @@ import { Association, BelongsToManyAddAssociationMixin, BelongsToManyGetAssociat
 import { UUID } from "../common/types";
 import { Location } from "../locations/locationModel";
 import { registerAssociations, registerModel } from "../sequelize";
+import { BundleComponent, BUNDLE_FK } from "./bundleComponentModel";
 import { Image } from "./imageModel";
 import { Stock, STOCK_LOCATION_FK, STOCK_PRODUCT_FK } from "./stockModel";
 import { Tag } from "./tagModel";
-import { ProductCategory} from "./types";
+import { ProductCategory, TaxRate } from "./types";
 
 export const PRODUCT_FK = "productId"; 
 
@@ -15,6 +16,8 @@ export class Product extends Model<InferAttributes<Product>, InferCreationAttrib
     declare description: string;
     declare price: number;
     declare category: ProductCategory;
+    declare taxRate: CreationOptional<TaxRate | null>;
+    declare lowStockThreshold: CreationOptional<number | null>;
     declare createdAt: NonAttribute<Date>;
     declare updatedAt: NonAttribute<Date>;
 
@@ -32,12 +35,14 @@ export class Product extends Model<InferAttributes<Product>, InferCreationAttrib
     declare stock?: NonAttribute<Stock[]>;
     declare image?: NonAttribute<Image>;
     declare tags?: NonAttribute<Tag[]>;
+    declare components?: NonAttribute<BundleComponent[]>;
 
     declare static associations: {
         locations: Association<Product, Location>;
         stock: Association<Product, Stock>;
         image: Association<Product, Image>;
         tags: Association<Product, Tag>;
+        components: Association<Product, BundleComponent>;
     }
 }
 
@@ -81,7 +86,24 @@ async function initProductModel(sequelize: Sequelize): Promise<void> {
                 type: DataTypes.ENUM,
                 allowNull: false,
                 values: Object.values(ProductCategory)
-            }
+            },
+            // VAT rate in percentage. If null, the category's rate applies.
+            taxRate: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 0,
+                    max: 100,
+                }
+            },
+            // Stock at or below this value is low. If null, the global threshold applies.
+            lowStockThreshold: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 0,
+                }
+            },
         },
         {
             sequelize: sequelize,
@@ -113,4 +135,10 @@ async function initProductAssociations(): Promise<void> {
         foreignKey: PRODUCT_FK,
         as: "tags"
     });
+
+    // The products in a bundle. Empty for other categories.
+    Product.hasMany(BundleComponent, {
+        foreignKey: BUNDLE_FK,
+        as: "components"
+    });
 }
\ No newline at end of file
@@ -1,22 +1,25 @@
-import { Body, Controller, Get, Patch, Path, Post, Put, Query, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
+import { Body, Controller, Get, Patch, Path, Post, Put, Query, Request, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
 import { SequelizeTransactionCallback, UUID } from "../common/types";
 import { Role } from "../common/roles";
-import { SecurityScheme } from "../security/authorization";
+import { AuthRequest, SecurityScheme } from "../security/authorization";
 import { BagColour, TshirtColour, TshirtSize } from "./types";
 import { Product } from "./productModel";
-import { ForeignKeyConstraintError, Includeable, InferCreationAttributes, Op, Order, OrderItem, Sequelize, Transaction, WhereOptions } from "sequelize";
+import { ForeignKeyConstraintError, Includeable, Op, Order, OrderItem, Sequelize, Transaction, WhereOptions } from "sequelize";
 import { BadRequestError, ConflitError, AppErrorCode, NotFoundError, AppError, BadRequestErrorResponse, ServerErrorResponse, NotFoundErrorResponse, AuthenticationErrorResponse, ForbiddenErrorResponse, ConflitErrorResponse } from "../common/errors";
-import { Price, ProductCategory } from "./types";
+import { Price, ProductCategory, TaxRate } from "./types";
 import { Stock } from "./stockModel";
 import { Image } from "./imageModel";
 import { Tag } from "./tagModel";
 import { generateS3SignedUrl, ImageFileType } from "./ImageService";
+import { getReservedStock, ReservedStock } from "../sales/ReservationService";
+import { getTaxRate } from "../sales/TaxService";
+import { BundleComponent } from "./bundleComponentModel";
+import { getBundleStock, includeComponents, withComponentIds } from "./BundleService";
+import { getLowStockThreshold, setStock, StockQuantity } from "../stock/StockService";
+import { MovementType } from "../stock/stockMovementModel";
 
 // ------------------------------ Types ------------------------------ //
 
-// Stock below or equal to this value is considered "LAST"
-const STOCK_THRESHOLD = 3;
-
 // The possible product's Status
 enum ProductStatus {
     STOCK = "in stock",
@@ -89,16 +92,17 @@ export class ProductsController extends Controller {
             price: {
                 [Op.gte]: priceMin,
                 [Op.lte]: priceMax
-            }
+            },
+            ...(stock) ? {[Op.or]: inStockWhere()} : {}
         }
 
         // If the request wants products in stock, minimum stock is 1. 
         const minStock = (stock) ? 1 : 0;
         const include: Includeable[] = [
             {
-                required: stock,
+                required: false,
                 association: Product.associations.stock,
-                attributes: ["quantity"],
+                attributes: ["locationId", "quantity", "lowStockThreshold"],
                 where: {
                     quantity: {
                         [Op.gte]: minStock
@@ -114,7 +118,8 @@ export class ProductsController extends Controller {
                 required: false,
                 association: Product.associations.tags,
                 attributes: ["name", "value"]
-            }
+            },
+            includeComponents(),
         ];
 
         // Category special case
@@ -130,7 +135,8 @@ export class ProductsController extends Controller {
 
         // Fetch products
         const result = await Product.findAll({limit: limit, offset: page * limit, where, include, order: orderBy});
-        const products: ProductPublicInfo[] = result.map(product => toProductPublicInfo(product));
+        const reserved = await getReservedStock(withComponentIds(result));
+        const products: ProductPublicInfo[] = result.map(product => toProductPublicInfo(product, reserved));
         
         return {
             status: 200,
@@ -155,13 +161,16 @@ export class ProductsController extends Controller {
         @Path() productId: UUID,
     ) : Promise<GetProductPublicInfoResult> {
         
-        // Fetch the product and its tags
-        const result = await transactionRepeatableRead(async(t) => await getProductByPk(productId, t));
+        // Fetch the product, its tags and reserved stock
+        const [result, reserved] = await transactionRepeatableRead(async(t) => {
+            const product = await getProductByPk(productId, t);
+            return [product, await getReservedStock(withComponentIds((product) ? [product] : []), undefined, t)] as const;
+        });
         
         // Product not found
         if (result == null) return Promise.reject(new NotFoundError());
 
-        const publicInfo: ProductPublicInfo = toProductPublicInfo(result);
+        const publicInfo: ProductPublicInfo = toProductPublicInfo(result, reserved);
 
         return {
             status: 200,
@@ -190,13 +199,16 @@ export class ProductsController extends Controller {
         @Path() productId: UUID,
     ) : Promise<GetProductProtectedInfoResult> {
         
-        // Fetch the product and its tags
-        const result = await transactionRepeatableRead(async(t) => await getProductByPk(productId, t));
+        // Fetch the product, its tags and reserved stock
+        const [result, reserved] = await transactionRepeatableRead(async(t) => {
+            const product = await getProductByPk(productId, t);
+            return [product, await getReservedStock(withComponentIds((product) ? [product] : []), undefined, t)] as const;
+        });
         
         // Product not found
         if (result == null) return Promise.reject(new NotFoundError());
 
-        const protectedInfo: ProductProtectedInfo = toProductProtectedInfo(result);
+        const protectedInfo: ProductProtectedInfo = toProductProtectedInfo(result, reserved);
 
         return {
             status: 200,
@@ -302,6 +314,49 @@ export class ProductsController extends Controller {
         return this.createProduct(body);
     }
 
+    /**
+     * A bundle combines other products (its components) at a combined price. Bundles don't have stock of their own:
+     * selling a bundle takes the stock of each component, and its availability comes from the components' stock.
+     * The bundle's price is split across the components, proportionally to their prices, and the VAT is the
+     * components' VAT. Bundles can't contain other bundles.
+     * 
+     * @summary Creates a new Bundle.
+     */
+    @Post("bundles")
+    @Tags(TAG_PRODUCTS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(201, "Successfully created a new Bundle.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ConflitErrorResponse>(409, "Can't create bundle.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async createBundle(
+        @Body() body: CreateBundleParams
+    ) : Promise<CreateProductResult> {
+        const productIds = body.components.map(c => c.productId);
+
+        // Sanity check. Don't allow repeated productIds.
+        if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
+            return Promise.reject(new BadRequestError({
+                code: AppErrorCode.REQ_FORMAT,
+                message: "Repeated productId not allowed."
+            }));
+        }
+
+        const result = await createBundle(body);
+
+        // Bubble up the error
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+        return {
+            status: 201,
+            data: result.productId,
+        }
+    }
+
     /**
      * Update a products information, except its tags and category.
      * Returns the updated product.
@@ -322,7 +377,7 @@ export class ProductsController extends Controller {
         @Path() productId: UUID,
         @Body() body: UpdateProductParams
     ) : Promise<UpdateProductResult> {
-        const { name, price, description } = body;
+        const { name, price, description, taxRate } = body;
 
         const result = await transactionRepeatableRead(async (t) => {
             const result = await getProductByPk(productId, t);
@@ -334,7 +389,13 @@ export class ProductsController extends Controller {
             }
 
             const product = result;
-            product.set({name, price, description});
+            // Only update the given fields. A null taxRate resets it to the category's rate.
+            product.set({
+                ...(name != null) ? {name: name} : {},
+                ...(price != null) ? {price: price} : {},
+                ...(description != null) ? {description: description} : {},
+                ...(taxRate !== undefined) ? {taxRate: taxRate} : {},
+            });
             await product.save({transaction: t});
             return product;
         });
@@ -344,7 +405,8 @@ export class ProductsController extends Controller {
             return Promise.reject(result);
         }
 
-        const protectedInfo = toProductProtectedInfo(result);
+        const reserved = await getReservedStock(withComponentIds([result]));
+        const protectedInfo = toProductProtectedInfo(result, reserved);
 
         return {
             status: 200,
@@ -355,6 +417,7 @@ export class ProductsController extends Controller {
     /**
      * Updates the stock of a product at multiple locations.
      * Existing stock in other locations won't be modified unless part of the update.
+     * The quantities are absolute, for full recounts. To add or remove quantities, use "POST /stock/adjustments".
      * 
      * @summary Update the stock of a product.
      * 
@@ -371,6 +434,7 @@ export class ProductsController extends Controller {
     @Response<ConflitErrorResponse>(409, "Can't update stock.")
     @Response<ServerErrorResponse>(500, "Internal Server Error.")
     public async updateProductstock(
+        @Request() request: AuthRequest,
         @Path() productId: UUID,
         @Body() body: UpdateProductStockParams
     ) : Promise<void> {
@@ -385,7 +449,7 @@ export class ProductsController extends Controller {
             }));
         }
 
-        const toUpsert: InferCreationAttributes<Stock>[] = list.map<InferCreationAttributes<Stock>>(stock => ({
+        const toUpsert: StockQuantity[] = list.map(stock => ({
             productId: productId,
             locationId: stock.locationId,
             quantity: stock.quantity
@@ -411,7 +475,14 @@ export class ProductsController extends Controller {
                         });
                     }
 
-                    await Stock.bulkCreate(toUpsert, {updateOnDuplicate: ["quantity"], transaction: t});
+                    // Bundles take their components' stock.
+                    if (product.category == ProductCategory.BUNDLE) {
+                        return new ConflitError({
+                            message: "Can't update a bundle's stock. Update its components' stock instead."
+                        });
+                    }
+
+                    await setStock(toUpsert, {type: MovementType.COUNT, userId: request.auth.userId}, t);
                 }
             );
 
@@ -556,7 +627,7 @@ async function getProductByPk(productId: Product["productId"], transaction?: Tra
         {
             required: false,
             association: Product.associations.stock,
-            attributes: ["locationId", "quantity"]
+            attributes: ["locationId", "quantity", "lowStockThreshold"]
         },
         {
             required: false,
@@ -567,7 +638,8 @@ async function getProductByPk(productId: Product["productId"], transaction?: Tra
             required: false,
             association: Product.associations.tags,
             attributes: ["name", "value"]
-        }
+        },
+        includeComponents(),
     ];
 
     return await Product.findByPk(productId, {include, transaction});
@@ -575,21 +647,37 @@ async function getProductByPk(productId: Product["productId"], transaction?: Tra
 
 /**
  * Receives a product and transforms it into a view with protected info.
+ * The stock held by active reservations isn't available, so it's subtracted from each location's quantity.
  * 
  * @param product The product to be processed.
+ * @param reserved The reserved stock of this product (and possibly others).
  * @returns A product formatted with protected info.
  */
- function toProductProtectedInfo(product: Product): ProductProtectedInfo {
+ function toProductProtectedInfo(product: Product, reserved: ReservedStock[] = []): ProductProtectedInfo {
     const tags = product.tags?.reduce((acc: any, tag) => {
         acc[tag.name] = tag.value;
         return acc;
     }, {});
 
-    const stock = product.stock?.map(s => ({locationId: s.locationId, quantity: s.quantity}));
+    // Bundles don't hold stock, their components do.
+    const stock = (product.category == ProductCategory.BUNDLE) ?
+        getBundleStock(product, reserved).map(s => ({...s, reserved: 0, lowStockThreshold: getLowStockThreshold(product)})) :
+        product.stock?.map(s => {
+            const held = reserved.find(r => r.productId == product.productId && r.locationId == s.locationId)?.quantity || 0;
+            return {
+                locationId: s.locationId,
+                quantity: Math.max(s.quantity - held, 0),
+                reserved: held,
+                lowStockThreshold: getLowStockThreshold(product, s),
+            };
+        });
     const totalStock = stock?.reduce((acc, entry) => acc + entry.quantity, 0);
+    // Also low when every location is at or below its own threshold, even if the total isn't.
+    const isLow: boolean = (totalStock!! <= getLowStockThreshold(product))
+        || (stock || []).every(entry => entry.quantity <= entry.lowStockThreshold);
     const status: ProductStatus = (stock?.length == 0) ? 
         ProductStatus.NO_INFO : (totalStock!! == 0) ? 
-        ProductStatus.SOLD_OUT : (totalStock!! <= STOCK_THRESHOLD) ? 
+        ProductStatus.SOLD_OUT : (isLow) ? 
         ProductStatus.LAST : ProductStatus.STOCK;
     
     // Make formatted product
@@ -598,13 +686,20 @@ async function getProductByPk(productId: Product["productId"], transaction?: Tra
         name: product.name,
         description: product.description,
         price: product.price,
+        taxRate: getTaxRate(product),
         status: status,
         image: product.image?.data,
         url: product.image?.url,
         category: product.category,
         tags: tags,
+        components: (product.category == ProductCategory.BUNDLE) ? product.components?.map(c => ({
+            productId: c.productId,
+            name: c.product!!.name,
+            quantity: c.quantity,
+        })) : undefined,
         stock: stock || [],
         totalStock: totalStock || 0,
+        lowStockThreshold: getLowStockThreshold(product),
     }
 
     return protectedInfo;
@@ -614,20 +709,23 @@ async function getProductByPk(productId: Product["productId"], transaction?: Tra
  * Receives a product and transforms it into a view with only public info.
  * 
  * @param product The product to be processed.
+ * @param reserved The reserved stock of this product (and possibly others).
  * @returns A product formatted with public info.
  */
-function toProductPublicInfo(product: Product): ProductPublicInfo {
-    const protectedInfo: ProductProtectedInfo = toProductProtectedInfo(product);
+function toProductPublicInfo(product: Product, reserved: ReservedStock[] = []): ProductPublicInfo {
+    const protectedInfo: ProductProtectedInfo = toProductProtectedInfo(product, reserved);
     const publicInfo: ProductPublicInfo = {
         productId: protectedInfo.productId,
         name: protectedInfo.name,
         description: protectedInfo.description,
         price: protectedInfo.price,
+        taxRate: protectedInfo.taxRate,
         status: protectedInfo.status,
         image: protectedInfo.image,
         url: protectedInfo.url,
         category: protectedInfo.category,
         tags: protectedInfo.tags,
+        components: protectedInfo.components,
     }
 
     return publicInfo;
@@ -647,7 +745,7 @@ interface ProductTag {
  * @returns A promise to be either resolved with the created product or an AppError or rejected with an Error.
  */
 async function createProduct(params: CreateProductParams): Promise<Product | AppError> {
-    const { name, description, price, category, ...tags } = params;
+    const { name, description, price, category, taxRate, ...tags } = params;
     const tagNames: string[] = Object.keys(tags);
     const tagValues: string[] = Object.values(tags);
 
@@ -685,7 +783,7 @@ async function createProduct(params: CreateProductParams): Promise<Product | App
             });
         }
 
-        const product = await Product.create({name, description, price, category: category!!}, {transaction: t});
+        const product = await Product.create({name, description, price, category: category!!, taxRate}, {transaction: t});
         const productId = product.productId;
 
         // Associate product's tags
@@ -699,6 +797,85 @@ async function createProduct(params: CreateProductParams): Promise<Product | App
     })
 }
 
+/**
+ * Creates a new bundle and its list of components.
+ * 
+ * @param params Bundle creation parameters.
+ * @returns A promise to be either resolved with the created bundle or an AppError or rejected with an Error.
+ */
+async function createBundle(params: CreateBundleParams): Promise<Product | AppError> {
+    const { name, description, price, components } = params;
+    const productIds = components.map(c => c.productId);
+
+    return await transactionReadCommitted(async(t) => {
+        const products = await Product.findAll({attributes: ["productId", "category"], where: {productId: productIds}, transaction: t});
+
+        // Every component must exist.
+        const missing = productIds.filter(id => !products.some(p => p.productId == id));
+        if (missing.length > 0) {
+            return new ConflitError({
+                message: "Can't create bundle. Some components don't exist.",
+                fields: {
+                    "body.components": {
+                        message: "These productIds don't exist.",
+                        value: missing
+                    }
+                }
+            });
+        }
+
+        // Bundles can't be nested.
+        const bundles = products.filter(p => p.category == ProductCategory.BUNDLE).map(p => p.productId);
+        if (bundles.length > 0) {
+            return new ConflitError({
+                message: "Can't create bundle. Bundles can't contain other bundles.",
+                fields: {
+                    "body.components": {
+                        message: "These productIds are bundles.",
+                        value: bundles
+                    }
+                }
+            });
+        }
+
+        const bundle = await Product.create({name, description, price, category: ProductCategory.BUNDLE}, {transaction: t});
+        await BundleComponent.bulkCreate(
+            components.map(c => ({bundleId: bundle.productId, productId: c.productId, quantity: c.quantity})),
+            {transaction: t}
+        );
+        return bundle;
+    });
+}
+
+/**
+ * Products in stock have at least a unit at some location. Bundles are in stock if some location
+ * has enough of every component for a bundle.
+ * 
+ * @returns The conditions for a product to be in stock, any of which must hold.
+ */
+function inStockWhere(): WhereOptions[] {
+    return [
+        {
+            productId: {
+                [Op.in]: Sequelize.literal(`(SELECT "productId" FROM "stock" WHERE "quantity" >= 1)`)
+            }
+        },
+        {
+            [Op.and]: [
+                {category: ProductCategory.BUNDLE},
+                Sequelize.literal(`EXISTS (
+                    SELECT 1 FROM "location" AS "l" WHERE NOT EXISTS (
+                        SELECT 1 FROM "bundle_component" AS "bc" WHERE "bc"."bundleId" = "Product"."productId" AND NOT EXISTS (
+                            SELECT 1 FROM "stock" AS "s"
+                            WHERE "s"."productId" = "bc"."productId" AND "s"."locationId" = "l"."locationId" AND "s"."quantity" >= "bc"."quantity"
+                        )
+                    )
+                )`),
+            ]
+        },
+    ];
+}
+
 // ------------------------------ Request Formats ------------------------------ //
 
 interface CreateProductBaseParams {
@@ -706,6 +883,8 @@ interface CreateProductBaseParams {
     description: string,
     price: Price,
     category?: ProductCategory,
+    /** The product's VAT rate. If omitted, the category's rate applies. */
+    taxRate?: TaxRate,
 }
 
 interface CreateTshirtParams extends CreateProductBaseParams {
@@ -729,6 +908,25 @@ interface CreateBookParams extends CreateProductBaseParams {
     year: string,
 }
 
+interface BundleComponentParams {
+    productId: UUID,
+    /**
+     * Units of the product in each bundle.
+     * @isInt
+     * @minimum 1 minimum 1.
+     */
+    quantity: number,
+}
+
+interface CreateBundleParams {
+    name: string,
+    description: string,
+    /** The bundle's combined price. */
+    price: Price,
+    /** @minItems 1 minimum 1 component. */
+    components: BundleComponentParams[],
+}
+
 // Product creation parameters must match one of these.
 // To add a new Product category, just update this definition. Follow the scheme above.
 type CreateProductParams = CreateTshirtParams | CreateBagParams | CreateBookParams;
@@ -737,6 +935,8 @@ interface UpdateProductParams {
     name?: string,
     description?: string,
     price?: Price,
+    /** The product's VAT rate. Set to null to use the category's rate. */
+    taxRate?: TaxRate | null,
 }
 
 interface ProductStock {
@@ -761,6 +961,18 @@ interface ProductCategoryTags {
 
 interface ProductStockInfo {
     locationId: UUID,
+    /** Available quantity, excluding reserved stock. */
+    quantity: number,
+    /** Quantity held by pending sales. */
+    reserved: number,
+    /** The quantity is low at or below this value. */
+    lowStockThreshold: number,
+}
+
+interface BundleComponentInfo {
+    productId: UUID,
+    name: string,
+    /** Units of the product in each bundle. */
     quantity: number,
 }
 
@@ -769,17 +981,24 @@ interface ProductProtectedInfo {
     name: string,
     description: string,
     price: number,
+    /** VAT rate, in percentage, included in the price. */
+    taxRate: TaxRate,
     status: ProductStatus,
     image?: string,
     url?: string,
     category: ProductCategory,
     tags: ProductCategoryTags,
+    /** The products in a bundle. Only for bundles. */
+    components?: BundleComponentInfo[],
+    /** For bundles, the number of complete bundles the components' available stock can make. */
     stock: ProductStockInfo[],
     totalStock: number,
+    /** The total stock is low ("last units") at or below this value, or when every location's stock is low. */
+    lowStockThreshold: number,
 }
 
 // Public info is the same as protected info, except a few properties.
-type ProductPublicInfo = Omit<ProductProtectedInfo, "stock" | "totalStock">
+type ProductPublicInfo = Omit<ProductProtectedInfo, "stock" | "totalStock" | "lowStockThreshold">
 
 /** JSON response format for the "GET /products" endpoint. */
 interface GetProductsResult {
@@ -1,4 +1,4 @@
-import { Association, BelongsToGetAssociationMixin, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
+import { Association, BelongsToGetAssociationMixin, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
 import { Location } from "../locations/locationModel";
 import { registerAssociations, registerModel } from "../sequelize";
 import { Product } from "./productModel";
@@ -10,6 +10,7 @@ export class Stock extends Model<InferAttributes<Stock>, InferCreationAttributes
     declare productId: ForeignKey<Product["productId"]>;
     declare locationId: ForeignKey<Location["locationId"]>;
     declare quantity: number;
+    declare lowStockThreshold: CreationOptional<number | null>;
 
     declare getProduct: BelongsToGetAssociationMixin<Product>;
     declare getLocation: BelongsToGetAssociationMixin<Location>;
@@ -36,7 +37,15 @@ async function initStockModel(sequelize: Sequelize): Promise<void> {
                 validate: {
                     min: 0
                 }
-            }
+            },
+            // Stock at or below this value is low at this location. If null, the product's threshold applies.
+            lowStockThreshold: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 0
+                }
+            },
         },
         {
             timestamps: false,
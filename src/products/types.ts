@@ -7,11 +7,22 @@
  */
  export type Price = number;
 
+/**
+ * VAT rate, in percentage.
+ * 
+ * @minimum 0 minimum 0.
+ * @maximum 100 maximum 100.
+ * @isInt
+ */
+export type TaxRate = number;
+
 /** The available Product categories */
 export enum ProductCategory {
     TSHIRT = "tshirt",
     BAG = "bag",
     BOOK = "book",
+    /** A combination of other products, sold at a combined price. */
+    BUNDLE = "bundle",
 }
 
 /** The available Tshirt sizes */
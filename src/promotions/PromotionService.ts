@@ -0,0 +1,166 @@
+/**
+ * Applies promo codes to the items of a sale.
+ * Discounts are always in euro cents and never greater than the discounted items' price.
+ */
+import { col, literal, Op, Transaction } from "sequelize";
+import { ConflitError } from "../common/errors";
+import { UUID } from "../common/types";
+import { ProductCategory } from "../products/types";
+import { getLocalDay } from "../utils/dates";
+import { Promotion, PromotionType } from "./promotionModel";
+
+// Promotions start and end on whole days, in the festival's time zone.
+const PROMOTION_TIMEZONE = "Europe/Lisbon";
+
+/** A sale item that may be discounted. */
+export interface DiscountableItem {
+    productId: UUID,
+    category: ProductCategory,
+    subtotal: number,
+}
+
+/**
+ * Finds a promotion by its code and checks if it can be used at the date.
+ *
+ * @param code The promo code.
+ * @param transaction The transaction.
+ * @param date When the promo code is used (e.g., when an offline sale was recorded). Defaults to now.
+ * @returns A promise to be either resolved with the Promotion or a ConflitError or rejected with an Error.
+ */
+export async function findValidPromotion(
+    code: string,
+    transaction?: Transaction,
+    date: Date = new Date()
+): Promise<Promotion | ConflitError> {
+    const today = getPromotionToday(date);
+    const promotion = await Promotion.findOne({
+        where: {
+            code: code,
+            startDate: { [Op.lte]: today },
+            endDate: { [Op.gte]: today },
+        },
+        include: {
+            association: Promotion.associations.products,
+            attributes: ["productId"],
+        },
+        transaction,
+    });
+
+    if (promotion == null) {
+        return invalidCodeError(code, "This promo code doesn't exist or isn't valid at this date.");
+    }
+
+    if (promotion.maxUses != null && promotion.uses >= promotion.maxUses) {
+        return invalidCodeError(code, "This promo code has reached its usage limit.");
+    }
+
+    return promotion;
+}
+
+/**
+ * Checks if a promotion applies to an item, according to the promotion's restrictions.
+ *
+ * @param promotion The promotion.
+ * @param item The item.
+ * @returns True if the item can be discounted.
+ */
+export function isItemEligible(promotion: Promotion, item: DiscountableItem): boolean {
+    const products = promotion.products || [];
+    const categoryMatch = promotion.category == null || promotion.category == item.category;
+    const productMatch = products.length == 0 || products.some(p => p.productId == item.productId);
+    return categoryMatch && productMatch;
+}
+
+/**
+ * Calculates the discount of each item.
+ * A fixed amount is split across the eligible items, proportionally to their subtotal.
+ *
+ * @param promotion The promotion.
+ * @param items The items to be discounted.
+ * @returns The discount of each item, in the same order, or a ConflitError if no item is eligible.
+ */
+export function calculateDiscounts(promotion: Promotion, items: DiscountableItem[]): number[] | ConflitError {
+    const eligible: boolean[] = items.map(item => isItemEligible(promotion, item));
+    const eligibleSubtotal: number = items.reduce((acc, item, idx) => acc + (eligible[idx] ? item.subtotal : 0), 0);
+
+    if (eligibleSubtotal == 0) {
+        return invalidCodeError(promotion.code, "This promo code doesn't apply to any product in the sale.");
+    }
+
+    if (promotion.type == PromotionType.PERCENTAGE) {
+        return items.map((item, idx) => eligible[idx] ? Math.round(item.subtotal * promotion.value / 100) : 0);
+    }
+
+    // The last eligible item takes the rounding remainder.
+    const amount: number = Math.min(promotion.value, eligibleSubtotal);
+    const lastIdx: number = eligible.lastIndexOf(true);
+    let allocated = 0;
+    return items.map((item, idx) => {
+        if (!eligible[idx]) return 0;
+        const discount = (idx == lastIdx) ? amount - allocated : Math.floor(amount * item.subtotal / eligibleSubtotal);
+        allocated += discount;
+        return discount;
+    });
+}
+
+/**
+ * Registers a use of the promotion. The usage limit is checked in the same statement,
+ * so concurrent sales can't exceed it.
+ *
+ * @param promotion The promotion.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with null or a ConflitError if the promotion reached its usage limit,
+ * or rejected with an Error.
+ */
+export async function redeemPromotion(promotion: Promotion, transaction: Transaction): Promise<ConflitError | null> {
+    const [ updated ] = await Promotion.update(
+        {uses: literal(`"uses" + 1`)},
+        {
+            where: {
+                promotionId: promotion.promotionId,
+                [Op.or]: [{maxUses: null}, {uses: {[Op.lt]: col("maxUses")}}],
+            },
+            transaction
+        }
+    );
+
+    return (updated == 0) ? invalidCodeError(promotion.code, "This promo code has reached its usage limit.") : null;
+}
+
+/**
+ * Reverts a use of the promotion (e.g., the sale was cancelled).
+ *
+ * @param promotionId The promotion's unique identifier.
+ * @param transaction The transaction.
+ */
+export async function unredeemPromotion(promotionId: UUID, transaction: Transaction): Promise<void> {
+    await Promotion.decrement("uses", {by: 1, where: {promotionId, uses: {[Op.gt]: 0}}, transaction});
+}
+
+/**
+ * Promotion dates are days (stored at midnight UTC), valid from the start of the first day
+ * until the end of the last day in Lisbon.
+ *
+ * @param now The current date. Defaults to now.
+ * @returns The date's day in Lisbon, at midnight UTC.
+ */
+export function getPromotionToday(now: Date = new Date()): Date {
+    return getLocalDay(now, PROMOTION_TIMEZONE);
+}
+
+/**
+ * @param code The promo code.
+ * @param message Why the code can't be used.
+ * @returns A ConflitError for the promo code.
+ */
+function invalidCodeError(code: string, message: string): ConflitError {
+    return new ConflitError({
+        message: "Can't apply promo code.",
+        fields: {
+            "body.promoCode": {
+                message: message,
+                value: code
+            }
+        }
+    });
+}
@@ -0,0 +1,134 @@
+import { Association, CreationOptional, DataTypes, HasManyGetAssociationsMixin, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { ProductCategory } from "../products/types";
+import { registerAssociations, registerModel } from "../sequelize";
+import { PromotionProduct } from "./promotionProductModel";
+
+export const PROMOTION_FK = "promotionId";
+
+/** How the promotion's value is applied. */
+export enum PromotionType {
+    // The value is a percentage of the price.
+    PERCENTAGE = "percentage",
+    // The value is an amount in euro cents.
+    FIXED = "fixed",
+}
+
+export class Promotion extends Model<InferAttributes<Promotion>, InferCreationAttributes<Promotion>> {
+    declare promotionId: CreationOptional<UUID>;
+    declare code: string;
+    declare description: CreationOptional<string | null>;
+    declare type: PromotionType;
+    declare value: number;
+    declare startDate: Date;
+    declare endDate: Date;
+    declare maxUses: CreationOptional<number | null>;
+    declare uses: CreationOptional<number>;
+    declare category: CreationOptional<ProductCategory | null>;
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+
+    /** Retrieve the products this promotion is restricted to. */
+    declare getProducts: HasManyGetAssociationsMixin<PromotionProduct>;
+
+    // Eager loaded properties.
+    declare products?: NonAttribute<PromotionProduct[]>;
+
+    declare static associations: {
+        products: Association<Promotion, PromotionProduct>;
+    }
+}
+
+registerModel(initPromotionModel);
+registerAssociations(initPromotionAssociations);
+
+async function initPromotionModel(sequelize: Sequelize): Promise<void> {
+    Promotion.init(
+        {
+            promotionId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            code: {
+                type: DataTypes.STRING,
+                unique: true,
+                allowNull: false,
+                validate: {
+                    notEmpty: true
+                }
+            },
+            description: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
+            type: {
+                type: DataTypes.ENUM,
+                allowNull: false,
+                values: Object.values(PromotionType)
+            },
+            // Percentage or euro cents, depending on the type.
+            value: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 1
+                }
+            },
+            startDate: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+            endDate: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+            // No limit if null.
+            maxUses: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 1
+                }
+            },
+            uses: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+                validate: {
+                    min: 0
+                }
+            },
+            // If set, only products of this category are discounted.
+            category: {
+                type: DataTypes.ENUM,
+                allowNull: true,
+                values: Object.values(ProductCategory)
+            },
+            createdAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+            updatedAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            }
+        },
+        {
+            sequelize: sequelize,
+            tableName: "promotion",
+            timestamps: true,
+        }
+    )
+}
+
+async function initPromotionAssociations(): Promise<void> {
+    // If the promotion has products, only those products are discounted.
+    Promotion.hasMany(PromotionProduct, {
+        foreignKey: PROMOTION_FK,
+        as: "products"
+    });
+}
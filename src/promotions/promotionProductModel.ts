@@ -0,0 +1,59 @@
+import { Association, BelongsToGetAssociationMixin, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
+import { UUID } from "../common/types";
+import { Product, PRODUCT_FK } from "../products/productModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { Promotion, PROMOTION_FK } from "./promotionModel";
+
+export class PromotionProduct extends Model<InferAttributes<PromotionProduct>, InferCreationAttributes<PromotionProduct>> {
+    declare promotionId: ForeignKey<UUID>;
+    declare productId: ForeignKey<UUID>;
+
+    /** Retrieve the associated Promotion. */
+    declare getPromotion: BelongsToGetAssociationMixin<Promotion>;
+    /** Retrieve the associated Product. */
+    declare getProduct: BelongsToGetAssociationMixin<Product>;
+
+    // Eager loaded properties.
+    declare promotion?: NonAttribute<Promotion>;
+    declare product?: NonAttribute<Product>;
+
+    declare static associations: {
+        promotion: Association<PromotionProduct, Promotion>;
+        product: Association<PromotionProduct, Product>;
+    }
+}
+
+registerModel(initPromotionProductModel);
+registerAssociations(initPromotionProductAssociations);
+
+async function initPromotionProductModel(sequelize: Sequelize): Promise<void> {
+    PromotionProduct.init(
+        {
+            promotionId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            productId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "promotion_product",
+            timestamps: false,
+        }
+    )
+}
+
+async function initPromotionProductAssociations(): Promise<void> {
+    PromotionProduct.belongsTo(Promotion, {
+        foreignKey: PROMOTION_FK,
+        as: "promotion"
+    });
+
+    PromotionProduct.belongsTo(Product, {
+        foreignKey: PRODUCT_FK,
+        as: "product"
+    });
+}
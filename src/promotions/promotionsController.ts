@@ -0,0 +1,401 @@
+import { ForeignKeyConstraintError, Op, Transaction, UniqueConstraintError, WhereOptions } from "sequelize";
+import { Body, Controller, Get, Patch, Path, Post, Query, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
+import { AppError, AppErrorCode, AuthenticationErrorResponse, BadRequestError, BadRequestErrorResponse, ConflitError, ConflitErrorResponse, ForbiddenErrorResponse, NotFoundError, NotFoundErrorResponse, ServerErrorResponse } from "../common/errors";
+import { Role } from "../common/roles";
+import { UUID } from "../common/types";
+import { ProductCategory } from "../products/types";
+import { SecurityScheme } from "../security/authorization";
+import { Promotion, PromotionType } from "./promotionModel";
+import { PromotionProduct } from "./promotionProductModel";
+import { getPromotionToday } from "./PromotionService";
+
+const TAG_PROMOTIONS = "Promotions";
+
+@Route("promotions")
+export class PromotionsController extends Controller {
+    /**
+     * @summary Retrieve a list of promotions.
+     *
+     * @param active If true, only returns promotions valid at this date.
+     */
+    @Get()
+    @Tags(TAG_PROMOTIONS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned a list of promotions.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getPromotions(
+        @Query() active: boolean = false,
+    ): Promise<GetPromotionsResult> {
+        const today = getPromotionToday();
+        const where: WhereOptions = (active) ? {
+            startDate: { [Op.lte]: today },
+            endDate: { [Op.gte]: today },
+        } : {};
+
+        const result = await Promotion.findAll({
+            where,
+            include: {
+                association: Promotion.associations.products,
+                attributes: ["productId"],
+            },
+            order: [["startDate", "asc"]],
+        });
+
+        return {
+            status: 200,
+            data: result.map(toPromotionInfo)
+        };
+    }
+
+    /**
+     * @summary Retrieve a promotion.
+     *
+     * @param promotionId The promotion's unique identifier.
+     */
+    @Get("{promotionId}")
+    @Tags(TAG_PROMOTIONS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned the promotion.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Promotion not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getPromotion(
+        @Path() promotionId: UUID,
+    ): Promise<GetPromotionResult> {
+        const result = await getPromotionByPk(promotionId);
+
+        if (result == null) {
+            return Promise.reject(promotionNotFoundError(promotionId));
+        }
+
+        return {
+            status: 200,
+            data: toPromotionInfo(result)
+        };
+    }
+
+    /**
+     * Creates a promo code. A percentage promotion discounts a percentage of each product's price.
+     * A fixed promotion discounts an amount, in euro cents, from the sale.
+     * The promotion may be restricted to a product category and/or a list of products.
+     *
+     * @summary Create a new promotion.
+     */
+    @Post()
+    @Tags(TAG_PROMOTIONS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(201, "Successfully created a promotion.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ConflitErrorResponse>(409, "Can't create promotion.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async createPromotion(
+        @Body() body: CreatePromotionParams,
+    ): Promise<CreatePromotionResult> {
+        const { code, description, type, value, startDate, endDate, maxUses, category } = body;
+        const productIds: UUID[] = body.productIds || [];
+
+        const error = validatePromotion(type, value, startDate, endDate);
+        if (error != null) {
+            return Promise.reject(error);
+        }
+
+        try {
+            const result = await Promotion.sequelize!!.transaction(
+                {isolationLevel: Transaction.ISOLATION_LEVELS.READ_COMMITTED},
+                async (transaction) => {
+                    const promotion = await Promotion.create(
+                        {code, description, type, value, startDate, endDate, maxUses, category},
+                        {transaction}
+                    );
+                    const promotionId = promotion.promotionId;
+                    await PromotionProduct.bulkCreate(
+                        productIds.map(productId => ({promotionId, productId})),
+                        {transaction, ignoreDuplicates: true}
+                    );
+                    return promotion;
+                }
+            );
+
+            return {
+                status: 201,
+                data: result.promotionId
+            };
+
+        } catch (err) {
+            // Duplicate code
+            if (err instanceof UniqueConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't create promotion.",
+                    code: AppErrorCode.DUPLICATED,
+                    fields: {
+                        "body.code": {
+                            message: "Promo code not unique.",
+                            value: code,
+                        }
+                    }
+                }));
+            }
+            // Unknown products
+            if (err instanceof ForeignKeyConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't create promotion. Some products don't exist."
+                }));
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Updates a promotion's description, validity dates and usage limit.
+     * Returns the updated promotion.
+     *
+     * @summary Update a promotion.
+     *
+     * @param promotionId The promotion's unique identifier.
+     */
+    @Patch("{promotionId}")
+    @Tags(TAG_PROMOTIONS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully updated the promotion.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Promotion not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async updatePromotion(
+        @Path() promotionId: UUID,
+        @Body() body: UpdatePromotionParams,
+    ): Promise<UpdatePromotionResult> {
+        const { description, startDate, endDate, maxUses } = body;
+
+        const result = await Promotion.sequelize!!.transaction(
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            async (transaction) => {
+                const promotion = await getPromotionByPk(promotionId, transaction);
+                if (promotion == null) {
+                    return promotionNotFoundError(promotionId);
+                }
+
+                if (description != null) {
+                    promotion.description = description;
+                }
+                if (startDate != null) {
+                    promotion.startDate = startDate;
+                }
+                if (endDate != null) {
+                    promotion.endDate = endDate;
+                }
+                if (maxUses != null) {
+                    promotion.maxUses = maxUses;
+                }
+
+                const error = validatePromotion(promotion.type, promotion.value, promotion.startDate, promotion.endDate);
+                if (error != null) {
+                    return error;
+                }
+
+                await promotion.save({transaction});
+                return promotion;
+            }
+        );
+
+        // Bubble up the error
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+        return {
+            status: 200,
+            data: toPromotionInfo(result)
+        };
+    }
+}
+
+// ------------------------------ Helper Functions ------------------------------ //
+
+/**
+ * Receives a Promotion's primary key and fetches that promotion from the database, alongside its products.
+ *
+ * @param promotionId The promotion's primary key.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the Promotion or null or rejected with an Error.
+ */
+async function getPromotionByPk(promotionId: UUID, transaction?: Transaction): Promise<Promotion | null> {
+    return await Promotion.findByPk(promotionId, {
+        include: {
+            association: Promotion.associations.products,
+            attributes: ["productId"],
+        },
+        transaction,
+    });
+}
+
+/**
+ * Checks if the promotion's value and dates are valid.
+ *
+ * @returns A BadRequestError if the promotion is invalid, or null.
+ */
+function validatePromotion(type: PromotionType, value: number, startDate: Date, endDate: Date): BadRequestError | null {
+    if (startDate > endDate) {
+        return new BadRequestError({
+            message: "Bad dates.",
+            code: AppErrorCode.REQ_FORMAT,
+            fields: {
+                "body.startDate": {
+                    message: "startDate can't be greater than endDate",
+                    value: startDate
+                },
+                "body.endDate": {
+                    message: "endDate can't be less than startDate",
+                    value: endDate
+                }
+            }
+        });
+    }
+
+    if (type == PromotionType.PERCENTAGE && value > 100) {
+        return new BadRequestError({
+            message: "Bad value.",
+            code: AppErrorCode.REQ_FORMAT,
+            fields: {
+                "body.value": {
+                    message: "A percentage can't be greater than 100.",
+                    value: value
+                }
+            }
+        });
+    }
+
+    return null;
+}
+
+/**
+ * @param promotionId The promotion's unique identifier.
+ * @returns A NotFoundError for the promotion.
+ */
+function promotionNotFoundError(promotionId: UUID): NotFoundError {
+    return new NotFoundError({
+        code: AppErrorCode.NOT_FOUND,
+        message: "Promotion not found.",
+        fields: {
+            "promotionId": {
+                message: "This promotionId doesn't exist.",
+                value: promotionId
+            }
+        }
+    });
+}
+
+/**
+ * Takes a Promotion and formats it into a PromotionInfo.
+ *
+ * @param promotion The Promotion to be formatted.
+ * @returns The formatted Promotion.
+ */
+function toPromotionInfo(promotion: Promotion): PromotionInfo {
+    return {
+        promotionId: promotion.promotionId,
+        code: promotion.code,
+        description: promotion.description || undefined,
+        type: promotion.type,
+        value: promotion.value,
+        startDate: promotion.startDate,
+        endDate: promotion.endDate,
+        maxUses: promotion.maxUses || undefined,
+        uses: promotion.uses,
+        category: promotion.category || undefined,
+        productIds: promotion.products?.map(p => p.productId) || [],
+    }
+}
+
+// ------------------------------ Request Formats ------------------------------ //
+
+/** JSON request format for the "POST /promotions" endpoint. */
+interface CreatePromotionParams {
+    /**
+     * @pattern ^[A-Za-z0-9_-]{3,32}$
+     * @example "INDIE2022"
+     */
+    code: string,
+    description?: string,
+    type: PromotionType,
+    /**
+     * A percentage (1 to 100) or an amount in euro cents, depending on the type.
+     * @isInt
+     * @minimum 1 minimum 1.
+     */
+    value: number,
+    /** @isDate Must be a date like 'YYYY-MM-DD'. */
+    startDate: Date,
+    /** @isDate Must be a date like 'YYYY-MM-DD'. */
+    endDate: Date,
+    /**
+     * Maximum number of sales using this code. No limit if omitted.
+     * @isInt
+     * @minimum 1 minimum 1.
+     */
+    maxUses?: number,
+    /** Only products of this category are discounted. */
+    category?: ProductCategory,
+    /** Only these products are discounted. */
+    productIds?: UUID[],
+}
+
+/** JSON request format for the "PATCH /promotions/{promotionId}" endpoint. */
+interface UpdatePromotionParams {
+    description?: string,
+    /** @isDate Must be a date like 'YYYY-MM-DD'. */
+    startDate?: Date,
+    /** @isDate Must be a date like 'YYYY-MM-DD'. */
+    endDate?: Date,
+    /**
+     * @isInt
+     * @minimum 1 minimum 1.
+     */
+    maxUses?: number,
+}
+
+// ------------------------------ Response Formats ------------------------------ //
+
+interface PromotionInfo {
+    promotionId: UUID,
+    code: string,
+    description?: string,
+    type: PromotionType,
+    value: number,
+    startDate: Date,
+    endDate: Date,
+    maxUses?: number,
+    uses: number,
+    category?: ProductCategory,
+    productIds: UUID[],
+}
+
+/** JSON response format for the "GET /promotions" endpoint. */
+interface GetPromotionsResult {
+    status: 200,
+    data: PromotionInfo[]
+}
+
+/** JSON response format for the "GET /promotions/{promotionId}" endpoint. */
+interface GetPromotionResult {
+    status: 200,
+    data: PromotionInfo
+}
+
+/** JSON response format for the "POST /promotions" endpoint. */
+interface CreatePromotionResult {
+    status: 201,
+    data: UUID
+}
+
+/** JSON response format for the "PATCH /promotions/{promotionId}" endpoint. */
+interface UpdatePromotionResult {
+    status: 200,
+    data: PromotionInfo
+}
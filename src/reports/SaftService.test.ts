@@ -0,0 +1,100 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { validateXML } from "xmllint-wasm";
+import { saft as config } from "../config.json";
+import { InvoiceLine } from "../invoices/invoiceLineModel";
+import { Invoice } from "../invoices/invoiceModel";
+import { Product } from "../products/productModel";
+import { generateSaft } from "./SaftService";
+
+// The documents come from these models, so the file is generated without a database.
+jest.mock("../invoices/invoiceModel", () => ({ Invoice: { findAll: jest.fn(), associations: {} } }));
+jest.mock("../invoices/invoiceLineModel", () => ({ InvoiceLine: { findAll: jest.fn(), associations: {} } }));
+jest.mock("../products/productModel", () => ({ Product: { findAll: jest.fn(), associations: {} } }));
+jest.mock("../sales/saleModel", () => ({ Sale: { associations: {} } }));
+
+const SCHEMA_FILE = join(__dirname, "fixtures", "SAFTPT1.04_01.subset.xsd");
+
+const TSHIRT = {productId: "5f0b1c9e-2a4d-4c1e-9b7a-1d2e3f4a5b6c", name: "T-shirt IndieLisboa"};
+const BOOK = {productId: "8a7b6c5d-4e3f-4a1b-8c9d-0e1f2a3b4c5d", name: "Catálogo 2022"};
+
+const INVOICE = {
+    type: "FR",
+    documentNumber: "FR 2022A1B2C3/1",
+    atcud: "0-1",
+    hash: "c2lnbmF0dXJl",
+    hashControl: "1",
+    issueDate: "2022-09-01",
+    customerNif: "123456789",
+    reason: null,
+    net: 2569,
+    tax: 431,
+    gross: 3000,
+    createdAt: new Date("2022-09-01T20:30:00Z"),
+    sale: {seller: {username: "seller01"}},
+    creditedInvoice: null,
+    lines: [
+        {productId: TSHIRT.productId, product: TSHIRT, quantity: 1, taxRate: 23, net: 1626, tax: 374, gross: 2000},
+        {productId: BOOK.productId, product: BOOK, quantity: 1, taxRate: 6, net: 943, tax: 57, gross: 1000},
+    ],
+};
+
+const CREDIT_NOTE = {
+    ...INVOICE,
+    type: "NC",
+    documentNumber: "NC 2022A1B2C3/1",
+    reason: "Devolução",
+    net: 943,
+    tax: 57,
+    gross: 1000,
+    createdAt: new Date("2022-09-02T10:00:00Z"),
+    creditedInvoice: {documentNumber: INVOICE.documentNumber},
+    lines: [INVOICE.lines[1]],
+};
+
+beforeAll(() => {
+    Object.assign(config, {
+        companyId: "123456789",
+        taxRegistrationNumber: "123456789",
+        companyName: "IndieLisboa",
+        address: {addressDetail: "Rua do Festival, 1", city: "Lisboa", postalCode: "1000-001"},
+        productCompanyTaxId: "123456789",
+    });
+
+    (Invoice.findAll as jest.Mock).mockImplementation(async (options) => {
+        if (options.group != null) {
+            return [{type: "FR", count: 1, net: INVOICE.net}, {type: "NC", count: 1, net: CREDIT_NOTE.net}];
+        }
+        if (options.raw) {
+            return [{customerNif: INVOICE.customerNif, name: "Maria Silva"}];
+        }
+        return [INVOICE, CREDIT_NOTE];
+    });
+    (InvoiceLine.findAll as jest.Mock).mockImplementation(async (options) => {
+        const [ , alias ] = options.attributes[0];
+        return (alias == "taxRate") ? [{taxRate: 6}, {taxRate: 23}] : [TSHIRT, BOOK];
+    });
+    (Product.findAll as jest.Mock).mockResolvedValue([TSHIRT, BOOK]);
+});
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<string> {
+    let text = "";
+    for await (const chunk of stream) {
+        text += chunk;
+    }
+    return text;
+}
+
+describe("generateSaft", () => {
+    it("generates a file valid against the SAF-T (PT) 1.04_01 schema", async () => {
+        const xml = await readAll(generateSaft({startDate: new Date("2022-09-01"), endDate: new Date("2022-09-30")}));
+
+        const result = await validateXML({
+            xml: [{fileName: "saft.xml", contents: xml}],
+            schema: [{fileName: "saft.xsd", contents: readFileSync(SCHEMA_FILE, "utf8")}],
+        });
+
+        expect(result.errors.map(error => error.rawMessage)).toEqual([]);
+        expect(result.valid).toBe(true);
+    });
+});
@@ -0,0 +1,347 @@
+/**
+ * Generates the SAF-T (PT) audit file, version 1.04_01, with the invoices and credit notes issued in a date range.
+ * The master files (customers, products and tax table) only include the entries used by those documents.
+ * The documents are fetched in batches and written as they arrive, like the sales export.
+ */
+import { col, fn, Op, WhereOptions } from "sequelize";
+import { Readable } from "stream";
+import { UUID } from "../common/types";
+import { saft as config } from "../config.json";
+import { InvoiceLine } from "../invoices/invoiceLineModel";
+import { Invoice } from "../invoices/invoiceModel";
+import { InvoiceType } from "../invoices/invoiceSeriesModel";
+import { toLocalDateTime } from "../invoices/InvoiceService";
+import { Product } from "../products/productModel";
+import { TaxRate } from "../products/types";
+import { Sale } from "../sales/saleModel";
+
+export const SAFT_CONTENT_TYPE = "application/xml";
+
+export interface SaftFilters {
+    /** First day (inclusive). */
+    startDate: Date,
+    /** Last day (inclusive), in the same year. */
+    endDate: Date,
+}
+
+interface SaftCustomer {
+    customerId: string,
+    taxId: string,
+    name: string,
+}
+
+// Rows of the raw queries. Postgres returns COUNT and SUM over integers as numeric strings.
+
+interface DocumentTotalRow {
+    type: InvoiceType,
+    count: string,
+    net: string,
+}
+
+interface CustomerRow {
+    customerNif: string | null,
+    /** The registered customer's name, if any. */
+    name: string | null,
+}
+
+interface ProductIdRow {
+    productId: UUID,
+}
+
+interface TaxRateRow {
+    taxRate: TaxRate,
+}
+
+const SAFT_NAMESPACE = "urn:OECD:StandardAuditFile-Tax:PT_1.04_01";
+const AUDIT_FILE_VERSION = "1.04_01";
+
+// Customers who didn't give their tax number.
+const FINAL_CONSUMER: SaftCustomer = {customerId: "CF", taxId: "999999990", name: "Consumidor final"};
+const UNKNOWN = "Desconhecido";
+
+const TAX_CODES: Record<string, string> = config.taxCodes;
+
+// Number of documents fetched from the database at a time.
+const BATCH_SIZE = 200;
+
+/**
+ * @param filters The date range.
+ * @returns A stream with the XML file.
+ */
+export function generateSaft(filters: SaftFilters): Readable {
+    return Readable.from(writeSaft(filters));
+}
+
+async function* writeSaft(filters: SaftFilters): AsyncGenerator<string> {
+    const where: WhereOptions = {
+        issueDate: {[Op.between]: [toDateOnly(filters.startDate), toDateOnly(filters.endDate)]}
+    };
+
+    yield `<?xml version="1.0" encoding="UTF-8"?>\n<AuditFile xmlns="${SAFT_NAMESPACE}">\n`;
+    yield writeHeader(filters) + "\n";
+
+    yield "<MasterFiles>\n";
+    for (const customer of await fetchCustomers(where)) {
+        yield writeCustomer(customer) + "\n";
+    }
+    for (const product of await fetchProducts(where)) {
+        yield writeProduct(product) + "\n";
+    }
+    yield element("TaxTable", (await fetchTaxRates(where)).map(writeTaxTableEntry)) + "\n";
+    yield "</MasterFiles>\n";
+
+    // Invoices credit the revenue, credit notes debit it.
+    const totals = await Invoice.findAll({
+        raw: true,
+        attributes: ["type", [fn("COUNT", col("invoiceId")), "count"], [fn("SUM", col("net")), "net"]],
+        where: where,
+        group: ["type"],
+    }) as unknown as DocumentTotalRow[];
+    const count = totals.reduce((acc, row) => acc + Number(row.count), 0);
+    const totalOf = (type: InvoiceType) => Number(totals.find(row => row.type == type)?.net || 0);
+
+    yield "<SourceDocuments>\n<SalesInvoices>\n";
+    yield element("NumberOfEntries", count);
+    yield element("TotalDebit", formatMoney(totalOf(InvoiceType.CREDIT_NOTE)));
+    yield element("TotalCredit", formatMoney(totalOf(InvoiceType.INVOICE_RECEIPT))) + "\n";
+
+    for (let offset = 0; ; offset += BATCH_SIZE) {
+        const invoices: Invoice[] = await Invoice.findAll({
+            where: where,
+            include: [
+                {
+                    association: Invoice.associations.lines,
+                    include: [{association: InvoiceLine.associations.product, attributes: ["name"]}],
+                },
+                {
+                    association: Invoice.associations.sale,
+                    attributes: ["sellerId"],
+                    include: [{association: Sale.associations.seller, attributes: ["username"]}],
+                },
+                {
+                    association: Invoice.associations.creditedInvoice,
+                    attributes: ["documentNumber"],
+                },
+            ],
+            order: [["type", "asc"], ["seriesId", "asc"], ["number", "asc"]],
+            limit: BATCH_SIZE,
+            offset: offset,
+        });
+
+        for (const invoice of invoices) {
+            yield writeInvoice(invoice) + "\n";
+        }
+
+        if (invoices.length < BATCH_SIZE) {
+            break;
+        }
+    }
+
+    yield "</SalesInvoices>\n</SourceDocuments>\n</AuditFile>\n";
+}
+
+// ------------------------------ Master Files ------------------------------ //
+
+/**
+ * @param customerNif The tax number on the document, if any.
+ * @param customerName The registered customer's name, if any.
+ * @returns The customer's entry. Customers without a tax number are final consumers.
+ */
+function toSaftCustomer(customerNif: string | null, customerName?: string | null): SaftCustomer {
+    if (customerNif == null) {
+        return FINAL_CONSUMER;
+    }
+    return {customerId: customerNif, taxId: customerNif, name: customerName || UNKNOWN};
+}
+
+async function fetchCustomers(where: WhereOptions): Promise<SaftCustomer[]> {
+    const rows = await Invoice.findAll({
+        raw: true,
+        attributes: [[col("Invoice.customerNif"), "customerNif"], [fn("MAX", col("sale->customer.name")), "name"]],
+        where: where,
+        include: {
+            association: Invoice.associations.sale,
+            attributes: [],
+            include: [{association: Sale.associations.customer, attributes: []}],
+        },
+        group: [col("Invoice.customerNif")],
+        order: [[col("Invoice.customerNif"), "asc"]],
+    }) as unknown as CustomerRow[];
+    return rows.map(row => toSaftCustomer(row.customerNif, row.name));
+}
+
+async function fetchProducts(where: WhereOptions): Promise<Product[]> {
+    const rows = await InvoiceLine.findAll({
+        raw: true,
+        attributes: [[fn("DISTINCT", col("InvoiceLine.productId")), "productId"]],
+        include: {association: InvoiceLine.associations.invoice, attributes: [], where: where},
+    }) as unknown as ProductIdRow[];
+    return await Product.findAll({
+        attributes: ["productId", "name"],
+        where: {productId: rows.map(row => row.productId)},
+        order: [["productId", "asc"]],
+    });
+}
+
+async function fetchTaxRates(where: WhereOptions): Promise<TaxRate[]> {
+    const rows = await InvoiceLine.findAll({
+        raw: true,
+        attributes: [[fn("DISTINCT", col("InvoiceLine.taxRate")), "taxRate"]],
+        include: {association: InvoiceLine.associations.invoice, attributes: [], where: where},
+    }) as unknown as TaxRateRow[];
+    return rows.map(row => row.taxRate).sort((a, b) => a - b);
+}
+
+// ------------------------------ XML ------------------------------ //
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * @param name The element's name.
+ * @param content The element's text or its child elements.
+ * @returns The XML element.
+ */
+function element(name: string, content: string | number | string[]): string {
+    const inner = (Array.isArray(content)) ? content.join("") : escapeXml(String(content));
+    return `<${name}>${inner}</${name}>`;
+}
+
+function formatMoney(cents: number): string {
+    return (Number(cents) / 100).toFixed(2);
+}
+
+function toDateOnly(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function taxCode(rate: TaxRate): string {
+    return TAX_CODES[String(rate)] || "OUT";
+}
+
+function writeHeader(filters: SaftFilters): string {
+    return element("Header", [
+        element("AuditFileVersion", AUDIT_FILE_VERSION),
+        element("CompanyID", config.companyId),
+        element("TaxRegistrationNumber", config.taxRegistrationNumber),
+        element("TaxAccountingBasis", "F"),
+        element("CompanyName", config.companyName),
+        element("CompanyAddress", [
+            element("AddressDetail", config.address.addressDetail),
+            element("City", config.address.city),
+            element("PostalCode", config.address.postalCode),
+            element("Country", "PT"),
+        ]),
+        element("FiscalYear", filters.startDate.getUTCFullYear()),
+        element("StartDate", toDateOnly(filters.startDate)),
+        element("EndDate", toDateOnly(filters.endDate)),
+        element("CurrencyCode", "EUR"),
+        element("DateCreated", toLocalDateTime(new Date()).slice(0, 10)),
+        element("TaxEntity", "Global"),
+        element("ProductCompanyTaxID", config.productCompanyTaxId),
+        element("SoftwareCertificateNumber", config.softwareCertificateNumber),
+        element("ProductID", config.productId),
+        element("ProductVersion", config.productVersion),
+    ]);
+}
+
+function writeCustomer(customer: SaftCustomer): string {
+    return element("Customer", [
+        element("CustomerID", customer.customerId),
+        element("AccountID", UNKNOWN),
+        element("CustomerTaxID", customer.taxId),
+        element("CompanyName", customer.name),
+        element("BillingAddress", [
+            element("AddressDetail", UNKNOWN),
+            element("City", UNKNOWN),
+            element("PostalCode", UNKNOWN),
+            element("Country", UNKNOWN),
+        ]),
+        element("SelfBillingIndicator", 0),
+    ]);
+}
+
+function writeProduct(product: Product): string {
+    return element("Product", [
+        element("ProductType", "P"),
+        element("ProductCode", product.productId),
+        element("ProductDescription", product.name),
+        element("ProductNumberCode", product.productId),
+    ]);
+}
+
+function writeTaxTableEntry(rate: TaxRate): string {
+    return element("TaxTableEntry", [
+        element("TaxType", "IVA"),
+        element("TaxCountryRegion", "PT"),
+        element("TaxCode", taxCode(rate)),
+        element("Description", `IVA ${rate}%`),
+        element("TaxPercentage", rate),
+    ]);
+}
+
+function writeInvoice(invoice: Invoice): string {
+    const systemEntryDate = toLocalDateTime(invoice.createdAt);
+    // The user who issued the document (at most 30 characters).
+    const sourceId = invoice.sale?.seller?.username || UNKNOWN;
+    const customer = toSaftCustomer(invoice.customerNif);
+    const isCreditNote = invoice.type == InvoiceType.CREDIT_NOTE;
+
+    const lines: string[] = (invoice.lines || []).map((line, idx) => element("Line", [
+        element("LineNumber", idx + 1),
+        element("ProductCode", line.productId),
+        element("ProductDescription", line.product?.name || UNKNOWN),
+        element("Quantity", line.quantity),
+        element("UnitOfMeasure", "UN"),
+        element("UnitPrice", (line.net / 100 / line.quantity).toFixed(6)),
+        element("TaxPointDate", invoice.issueDate),
+        ...(isCreditNote) ? [element("References", [
+            element("Reference", invoice.creditedInvoice?.documentNumber || UNKNOWN),
+            element("Reason", invoice.reason || UNKNOWN),
+        ])] : [],
+        element("Description", line.product?.name || UNKNOWN),
+        element((isCreditNote) ? "DebitAmount" : "CreditAmount", formatMoney(line.net)),
+        element("Tax", [
+            element("TaxType", "IVA"),
+            element("TaxCountryRegion", "PT"),
+            element("TaxCode", taxCode(line.taxRate)),
+            element("TaxPercentage", line.taxRate),
+        ]),
+    ]));
+
+    return element("Invoice", [
+        element("InvoiceNo", invoice.documentNumber),
+        element("ATCUD", invoice.atcud),
+        element("DocumentStatus", [
+            element("InvoiceStatus", "N"),
+            element("InvoiceStatusDate", systemEntryDate),
+            element("SourceID", sourceId),
+            element("SourceBilling", "P"),
+        ]),
+        element("Hash", invoice.hash),
+        element("HashControl", invoice.hashControl),
+        element("Period", Number(invoice.issueDate.slice(5, 7))),
+        element("InvoiceDate", invoice.issueDate),
+        element("InvoiceType", invoice.type),
+        element("SpecialRegimes", [
+            element("SelfBillingIndicator", 0),
+            element("CashVATSchemeIndicator", 0),
+            element("ThirdPartiesBillingIndicator", 0),
+        ]),
+        element("SourceID", sourceId),
+        element("SystemEntryDate", systemEntryDate),
+        element("CustomerID", customer.customerId),
+        ...lines,
+        element("DocumentTotals", [
+            element("TaxPayable", formatMoney(invoice.tax)),
+            element("NetTotal", formatMoney(invoice.net)),
+            element("GrossTotal", formatMoney(invoice.gross)),
+        ]),
+    ]);
+}
@@ -0,0 +1,75 @@
+import { Readable } from "stream";
+import { Controller, Get, Query, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
+import { AppErrorCode, AuthenticationErrorResponse, BadRequestError, BadRequestErrorResponse, ForbiddenErrorResponse, ServerErrorResponse } from "../common/errors";
+import { Role } from "../common/roles";
+import { SecurityScheme } from "../security/authorization";
+import { generateSaft, SAFT_CONTENT_TYPE } from "./SaftService";
+
+const TAG_REPORTS = "Reports";
+
+@Route("reports")
+export class ReportsController extends Controller {
+    /**
+     * Generates the SAF-T (PT) file, version 1.04_01, with the invoices and credit notes issued in the date range.
+     * The range must be within a single fiscal year. The company and software details come from the configuration.
+     *
+     * @summary Export the SAF-T (PT) audit file.
+     *
+     * @param startDate First day (inclusive).
+     * @isDate startDate Must be a date like 'YYYY-MM-DD'.
+     *
+     * @param endDate Last day (inclusive).
+     * @isDate endDate Must be a date like 'YYYY-MM-DD'.
+     */
+    @Get("saft")
+    @Tags(TAG_REPORTS)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully generated the SAF-T file.", ["application/xml"])
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getSaft(
+        @Query() startDate: Date,
+        @Query() endDate: Date,
+    ): Promise<Readable> {
+        // Sanity check. Don't allow startDate to be greater than endDate
+        if (startDate > endDate) {
+            return Promise.reject(new BadRequestError({
+                message: "Bad dates.",
+                code: AppErrorCode.REQ_FORMAT,
+                fields: {
+                    "startDate": {
+                        message: "startDate can't be greater than endDate",
+                        value: startDate
+                    },
+                    "endDate": {
+                        message: "endDate can't be less than startDate",
+                        value: endDate
+                    }
+                }
+            }));
+        }
+
+        // Sanity check. A SAF-T file covers a single fiscal year.
+        if (startDate.getUTCFullYear() != endDate.getUTCFullYear()) {
+            return Promise.reject(new BadRequestError({
+                message: "Bad dates.",
+                code: AppErrorCode.REQ_FORMAT,
+                fields: {
+                    "endDate": {
+                        message: "endDate must be in the same year as startDate",
+                        value: endDate
+                    }
+                }
+            }));
+        }
+
+        const start = startDate.toISOString().slice(0, 10);
+        const end = endDate.toISOString().slice(0, 10);
+        this.setHeader("Content-Type", SAFT_CONTENT_TYPE);
+        this.setHeader("Content-Disposition", `attachment; filename="saft-pt_${start}_${end}.xml"`);
+
+        return generateSaft({startDate, endDate});
+    }
+}
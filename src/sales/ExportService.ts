@@ -0,0 +1,232 @@
+/**
+ * Exports sale items as CSV or XLSX spreadsheets, one row per item.
+ * The items are fetched in batches and written as they arrive, so the export never has to fit in memory.
+ */
+import ExcelJS from "exceljs";
+import { literal, Op, WhereOptions } from "sequelize";
+import { PassThrough, Readable } from "stream";
+import { UUID } from "../common/types";
+import { Tag } from "../products/tagModel";
+import { appLogger } from "../utils/logger";
+import { SaleItem } from "./saleItemModel";
+import { Sale, SaleStatus } from "./saleModel";
+import { PaymentMethod } from "./salePaymentModel";
+import { paidWithWhere } from "./PaymentService";
+
+export enum ExportFormat {
+    CSV = "csv",
+    XLSX = "xlsx",
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    [ExportFormat.CSV]: "text/csv; charset=utf-8",
+    [ExportFormat.XLSX]: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export interface ExportFilters {
+    startDate: Date,
+    endDate: Date,
+    productId?: UUID,
+    sellerId?: UUID,
+    locationId?: UUID,
+    status?: SaleStatus,
+    paymentMethod?: PaymentMethod,
+}
+
+type ExportRow = (string | number | Date)[];
+
+// Number of sale items fetched from the database at a time.
+const BATCH_SIZE = 500;
+
+const COLUMNS: string[] = [
+    "Sale", "Date", "Status", "Location", "Seller", "Customer",
+    "Product ID", "Product", "Category", "Tags",
+    "Quantity", "Unit price (EUR)", "Subtotal (EUR)", "Discount (EUR)", "Total (EUR)",
+    "VAT rate (%)", "Net (EUR)", "VAT (EUR)",
+    "Returned", "Refunded (EUR)",
+    "Override price (EUR)", "Override reason", "Override approved by",
+];
+
+/**
+ * @param filters Which sales to export.
+ * @param format The spreadsheet format.
+ * @returns A stream with the spreadsheet.
+ */
+export function exportSales(filters: ExportFilters, format: ExportFormat): Readable {
+    if (format == ExportFormat.XLSX) {
+        return toXlsx(fetchRows(filters));
+    }
+    return Readable.from(toCsv(fetchRows(filters)));
+}
+
+/**
+ * Fetches the matching sale items, in batches, ordered by sale date.
+ * Each batch starts after the last item of the previous one (by sale date, sale and product, which never change),
+ * so items aren't skipped nor repeated when sales are updated during the export.
+ */
+async function* fetchRows(filters: ExportFilters): AsyncGenerator<ExportRow> {
+    const { startDate, endDate, productId, sellerId, locationId, status, paymentMethod } = filters;
+    const saleWhere: WhereOptions = {
+        updatedAt: {
+            [Op.gte]: startDate,
+            [Op.lte]: endDate
+        },
+        ...(sellerId) ? {sellerId: sellerId} : {},
+        ...(locationId) ? {locationId: locationId} : {},
+        ...(status) ? {status: status} : {},
+        ...(paymentMethod) ? paidWithWhere(paymentMethod) : {}
+    };
+
+    let last: SaleItem | null = null;
+    for (;;) {
+        const items: SaleItem[] = await SaleItem.findAll({
+            where: {
+                ...(productId) ? {productId: productId} : {},
+                ...(last != null) ? {[Op.and]: [afterItemWhere(last)]} : {},
+            },
+            include: [
+                {
+                    association: SaleItem.associations.sale,
+                    attributes: ["saleId", "createdAt", "status", "customerId"],
+                    where: saleWhere,
+                    include: [
+                        { association: Sale.associations.location, attributes: ["address"] },
+                        { association: Sale.associations.seller, attributes: ["name"] },
+                    ]
+                },
+                {
+                    association: SaleItem.associations.product,
+                    attributes: ["name", "category"],
+                },
+            ],
+            order: [[SaleItem.associations.sale, "createdAt", "asc"], ["saleId", "asc"], ["productId", "asc"]],
+            limit: BATCH_SIZE,
+        });
+
+        // Products have many tags. Fetching them apart keeps the batches' limit on the sale items.
+        const tags: Tag[] = await Tag.findAll({
+            where: { productId: [...new Set(items.map(item => item.productId))] }
+        });
+
+        for (const item of items) {
+            yield toExportRow(item, tags.filter(tag => tag.productId == item.productId));
+        }
+
+        if (items.length < BATCH_SIZE) {
+            return;
+        }
+        last = items[items.length - 1];
+    }
+}
+
+/**
+ * @param item The last item of a batch.
+ * @returns The condition for items after it, in the export's order.
+ */
+function afterItemWhere(item: SaleItem): WhereOptions {
+    const escape = (value: string | Date) => SaleItem.sequelize!!.escape(value);
+    return literal(
+        `("sale"."createdAt", "SaleItem"."saleId", "SaleItem"."productId") > ` +
+        `(${escape(item.sale!!.createdAt)}, ${escape(item.saleId)}, ${escape(item.productId)})`
+    );
+}
+
+function toExportRow(item: SaleItem, tags: Tag[]): ExportRow {
+    const sale = item.sale!!;
+    return [
+        sale.saleId,
+        sale.createdAt,
+        sale.status,
+        sale.location?.address || "",
+        sale.seller?.name || "",
+        sale.customerId || "",
+        item.productId,
+        item.product?.name || "",
+        item.product?.category || "",
+        tags.map(tag => `${tag.name}=${tag.value}`).join("; "),
+        item.quantity,
+        toEuros(item.price),
+        toEuros(item.subtotal),
+        toEuros(item.discount),
+        toEuros(item.total),
+        item.taxRate,
+        toEuros(item.net),
+        toEuros(item.tax),
+        item.returned,
+        toEuros(item.refunded),
+        (item.overridePrice != null) ? toEuros(item.overridePrice) : "",
+        item.overrideReason || "",
+        item.overrideApprovedById || "",
+    ];
+}
+
+function toEuros(cents: number): number {
+    return Number(cents) / 100;
+}
+
+// ------------------------------ CSV ------------------------------ //
+
+function toCsvValue(value: string | number | Date): string {
+    let text = (value instanceof Date) ? value.toISOString() : String(value);
+    // Spreadsheets run text starting with these characters as a formula (e.g., a product named "=HYPERLINK(...)").
+    if (typeof value == "string" && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* toCsv(rows: AsyncGenerator<ExportRow>): AsyncGenerator<string> {
+    yield COLUMNS.map(toCsvValue).join(",") + "\r\n";
+    for await (const row of rows) {
+        yield row.map(toCsvValue).join(",") + "\r\n";
+    }
+}
+
+// ------------------------------ XLSX ------------------------------ //
+
+function toXlsx(rows: AsyncGenerator<ExportRow>): Readable {
+    const stream = new PassThrough();
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({stream: stream, useStyles: false, useSharedStrings: false});
+    const worksheet = workbook.addWorksheet("Sales");
+
+    const write = async () => {
+        worksheet.addRow(COLUMNS).commit();
+        for await (const row of rows) {
+            worksheet.addRow(row).commit();
+            await drained(stream);
+        }
+        worksheet.commit();
+        await workbook.commit();
+    };
+
+    // The response has already started, so the export can only be aborted.
+    write().catch(err => {
+        if (!stream.destroyed) {
+            appLogger.error(err);
+            stream.destroy(err);
+        }
+    });
+    return stream;
+}
+
+/**
+ * Waits for the reader to catch up, so a slow client doesn't make the whole workbook pile up in memory.
+ * Rejects if the stream is closed (e.g., the client went away) before then.
+ */
+async function drained(stream: PassThrough): Promise<void> {
+    if (stream.writableLength < stream.writableHighWaterMark) {
+        return;
+    }
+    return new Promise((resolve, reject) => {
+        const onDrain = () => {
+            stream.off("close", onClose);
+            resolve();
+        };
+        const onClose = () => {
+            stream.off("drain", onDrain);
+            reject(new Error("The export stream was closed."));
+        };
+        stream.once("drain", onDrain);
+        stream.once("close", onClose);
+    });
+}
@@ -0,0 +1,89 @@
+/**
+ * Validates how a sale is paid. A sale may be split across several payment methods.
+ * Only cash may exceed the amount due, in which case change is given back.
+ */
+import { CreationAttributes, literal, Op, WhereOptions } from "sequelize";
+import { AppErrorCode, BadRequestError } from "../common/errors";
+import { PaymentMethod, SalePayment } from "./salePaymentModel";
+
+/** A payment as received from the customer. */
+export interface Payment {
+    method: PaymentMethod,
+    amount: number,
+}
+
+/**
+ * Checks if the payments add up to the sale's total and calculates the change.
+ *
+ * @param payments The payments received from the customer. Each method may be used only once.
+ * @param totalPrice The sale's total price, in euro cents.
+ * @returns The payments to be saved (without saleId) or a BadRequestError if the payments are invalid.
+ */
+export function allocatePayments(payments: Payment[], totalPrice: number): CreationAttributes<SalePayment>[] | BadRequestError {
+    const methods: PaymentMethod[] = payments.map(p => p.method);
+    if (methods.some((method, idx) => methods.lastIndexOf(method) != idx)) {
+        return paymentError("Repeated payment method not allowed.", methods);
+    }
+
+    const cash: Payment | undefined = payments.find(p => p.method == PaymentMethod.CASH);
+    const nonCash: number = payments
+        .filter(p => p.method != PaymentMethod.CASH)
+        .reduce((acc, p) => acc + p.amount, 0);
+
+    if (nonCash > totalPrice) {
+        return paymentError("Card and MB Way payments can't exceed the sale's total.", totalPrice);
+    }
+
+    // Cash covers whatever is left.
+    const cashDue: number = totalPrice - nonCash;
+    if (cashDue > (cash?.amount || 0)) {
+        return paymentError("Payments don't cover the sale's total.", totalPrice);
+    }
+    if (cash != null && cashDue == 0) {
+        return paymentError("Cash payment not needed. Other payments already cover the sale's total.", cash.amount);
+    }
+
+    return payments.map(p => {
+        const isCash = (p.method == PaymentMethod.CASH);
+        return {
+            saleId: "",                     // Must be updated later or the insert will fail!
+            method: p.method,
+            amount: isCash ? cashDue : p.amount,
+            tendered: p.amount,
+            change: isCash ? p.amount - cashDue : 0,
+        }
+    });
+}
+
+/**
+ * Filters sales by payment method, without joining the payments (which would repeat the sale's items).
+ *
+ * @param method The payment method.
+ * @returns The condition for a sale to be paid (at least partially) with the method.
+ */
+export function paidWithWhere(method: PaymentMethod): WhereOptions {
+    const escaped = SalePayment.sequelize!!.escape(method);
+    return {
+        saleId: {
+            [Op.in]: literal(`(SELECT "saleId" FROM "sale_payment" WHERE "method" = ${escaped})`)
+        }
+    };
+}
+
+/**
+ * @param message Why the payments are invalid.
+ * @param value The invalid value.
+ * @returns A BadRequestError for the payments.
+ */
+function paymentError(message: string, value: any): BadRequestError {
+    return new BadRequestError({
+        code: AppErrorCode.REQ_FORMAT,
+        message: "Invalid payments.",
+        fields: {
+            "body.payments": {
+                message: message,
+                value: value
+            }
+        }
+    });
+}
@@ -0,0 +1,310 @@
+/**
+ * Renders the receipt of a sale as plain text (for thermal printers), HTML or PDF.
+ * All renderers share the same layout, built by buildReceipt().
+ */
+import PDFDocument from "pdfkit";
+import { Readable } from "stream";
+import { receipts as config } from "../config.json";
+import { InvoiceType } from "../invoices/invoiceSeriesModel";
+import { Sale, SaleStatus } from "./saleModel";
+import { summarizeTaxes } from "./TaxService";
+
+export enum ReceiptFormat {
+    TEXT = "text/plain",
+    HTML = "text/html",
+    PDF = "application/pdf",
+}
+
+/** A receipt row with a label on the left and a value on the right. */
+interface ReceiptRow {
+    label: string,
+    value: string,
+}
+
+interface ReceiptItem {
+    name: string,
+    quantity: number,
+    /** Unit list price. */
+    price: string,
+    subtotal: string,
+    discount?: string,
+    returned?: number,
+}
+
+interface Receipt {
+    header: string[],
+    details: ReceiptRow[],
+    items: ReceiptItem[],
+    totals: ReceiptRow[],
+    /** VAT included in the total, per rate. */
+    taxes: ReceiptRow[],
+    payments: ReceiptRow[],
+    /** Extra notice, e.g., the sale was cancelled. */
+    notice?: string,
+    footer: string[],
+}
+
+const HEADER: string[] = config.header;
+const FOOTER: string[] = config.footer;
+const LINE_WIDTH: number = config.lineWidth;
+
+/**
+ * The sale must be loaded with its items (and their products), seller, location, payments, promotion and invoices.
+ *
+ * @param sale The sale.
+ * @param format The receipt's format.
+ * @returns A stream with the rendered receipt.
+ */
+export function renderReceipt(sale: Sale, format: ReceiptFormat): Readable {
+    const receipt = buildReceipt(sale);
+
+    switch (format) {
+        case ReceiptFormat.HTML:
+            return Readable.from([renderHtml(receipt)]);
+        case ReceiptFormat.PDF:
+            return renderPdf(receipt);
+        default:
+            return Readable.from([renderText(receipt)]);
+    }
+}
+
+/**
+ * @param cents An amount in euro cents.
+ * @returns The amount formatted in euros, e.g., "12.50 €".
+ */
+function formatMoney(cents: number): string {
+    return `${(Number(cents) / 100).toFixed(2)} €`;
+}
+
+/**
+ * @param date A date.
+ * @returns The date in Lisbon's time zone, e.g., "2022-09-01 21:30:00".
+ */
+function formatDate(date: Date): string {
+    return date.toLocaleString("sv-SE", {timeZone: "Europe/Lisbon"});
+}
+
+function buildReceipt(sale: Sale): Receipt {
+    const details: ReceiptRow[] = [
+        {label: "Sale", value: sale.saleId},
+        {label: "Date", value: formatDate(sale.createdAt)},
+        {label: "Location", value: sale.location?.address || sale.locationId},
+        {label: "Seller", value: sale.seller?.name || sale.sellerId},
+    ];
+
+    const invoice = sale.invoices?.find(i => i.type == InvoiceType.INVOICE_RECEIPT);
+    if (invoice != null) {
+        details.unshift({label: "Invoice", value: invoice.documentNumber}, {label: "ATCUD", value: invoice.atcud});
+        if (invoice.customerNif != null) {
+            details.push({label: "Customer NIF", value: invoice.customerNif});
+        }
+    }
+
+    const items: ReceiptItem[] = (sale.items || []).map(item => ({
+        name: item.product?.name || item.productId,
+        quantity: item.quantity,
+        price: formatMoney(item.price),
+        subtotal: formatMoney(item.subtotal),
+        discount: (item.discount > 0) ? formatMoney(-item.discount) : undefined,
+        returned: (item.returned > 0) ? item.returned : undefined,
+    }));
+
+    const totals: ReceiptRow[] = [{label: "Subtotal", value: formatMoney(sale.subtotalPrice)}];
+    if (Number(sale.discount) > 0) {
+        const label = (sale.promotion != null) ? `Discount (${sale.promotion.code})` : "Discount";
+        totals.push({label: label, value: formatMoney(-sale.discount)});
+    }
+    totals.push({label: "Total", value: formatMoney(sale.totalPrice)});
+    if (Number(sale.refundedPrice) > 0) {
+        totals.push({label: "Refunded", value: formatMoney(-sale.refundedPrice)});
+        totals.push({label: "Net total", value: formatMoney(Number(sale.totalPrice) - Number(sale.refundedPrice))});
+    }
+
+    const taxes: ReceiptRow[] = summarizeTaxes((sale.items || []).map(item => ({
+        taxRate: item.taxRate, net: item.net, tax: item.tax, gross: item.total
+    }))).map(summary => ({
+        label: `VAT ${summary.rate}% (${formatMoney(summary.net)})`,
+        value: formatMoney(summary.tax)
+    }));
+
+    const payments: ReceiptRow[] = [];
+    for (const payment of sale.payments || []) {
+        payments.push({label: payment.method.toUpperCase(), value: formatMoney(payment.tendered)});
+        if (payment.change > 0) {
+            payments.push({label: "Change", value: formatMoney(payment.change)});
+        }
+    }
+
+    return {
+        header: HEADER,
+        details: details,
+        items: items,
+        totals: totals,
+        taxes: taxes,
+        payments: payments,
+        notice: (sale.status == SaleStatus.CANCELLED) ? "*** CANCELLED ***" : undefined,
+        footer: FOOTER,
+    };
+}
+
+// ------------------------------ Plain Text ------------------------------ //
+
+function center(text: string): string {
+    const padding = Math.max(0, Math.floor((LINE_WIDTH - text.length) / 2));
+    return " ".repeat(padding) + text;
+}
+
+function justify(left: string, right: string): string {
+    const padding = Math.max(1, LINE_WIDTH - left.length - right.length);
+    return left + " ".repeat(padding) + right;
+}
+
+function renderText(receipt: Receipt): string {
+    const separator = "-".repeat(LINE_WIDTH);
+    const lines: string[] = [];
+
+    lines.push(...receipt.header.map(center), separator);
+    lines.push(...receipt.details.map(row => justify(row.label, row.value)), separator);
+    for (const item of receipt.items) {
+        lines.push(item.name);
+        lines.push(justify(`  ${item.quantity} x ${item.price}`, item.subtotal));
+        if (item.discount != null) {
+            lines.push(justify("  Discount", item.discount));
+        }
+        if (item.returned != null) {
+            lines.push(`  Returned: ${item.returned}`);
+        }
+    }
+    lines.push(separator);
+    lines.push(...receipt.totals.map(row => justify(row.label, row.value)));
+    lines.push(...receipt.taxes.map(row => justify(row.label, row.value)));
+    if (receipt.payments.length > 0) {
+        lines.push(separator);
+        lines.push(...receipt.payments.map(row => justify(row.label, row.value)));
+    }
+    if (receipt.notice != null) {
+        lines.push(separator, center(receipt.notice));
+    }
+    lines.push(separator, ...receipt.footer.map(center));
+
+    return lines.join("\n") + "\n";
+}
+
+// ------------------------------ HTML ------------------------------ //
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+function htmlRows(rows: ReceiptRow[]): string {
+    return rows
+        .map(row => `<tr><td>${escapeHtml(row.label)}</td><td class="value">${escapeHtml(row.value)}</td></tr>`)
+        .join("\n");
+}
+
+function renderHtml(receipt: Receipt): string {
+    const items: string = receipt.items.map(item => {
+        const rows = [
+            `<tr><td colspan="2">${escapeHtml(item.name)}</td></tr>`,
+            `<tr><td class="detail">${item.quantity} x ${escapeHtml(item.price)}</td><td class="value">${escapeHtml(item.subtotal)}</td></tr>`,
+        ];
+        if (item.discount != null) {
+            rows.push(`<tr><td class="detail">Discount</td><td class="value">${escapeHtml(item.discount)}</td></tr>`);
+        }
+        if (item.returned != null) {
+            rows.push(`<tr><td class="detail" colspan="2">Returned: ${item.returned}</td></tr>`);
+        }
+        return rows.join("\n");
+    }).join("\n");
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt</title>
+<style>
+body { font-family: monospace; max-width: ${LINE_WIDTH}em; margin: auto; }
+header, footer, .notice { text-align: center; }
+table { width: 100%; border-collapse: collapse; border-top: 1px dashed; }
+.value { text-align: right; }
+.detail { padding-left: 1em; }
+</style>
+</head>
+<body>
+<header>${receipt.header.map(line => `<div>${escapeHtml(line)}</div>`).join("")}</header>
+<table>
+${htmlRows(receipt.details)}
+</table>
+<table>
+${items}
+</table>
+<table>
+${htmlRows(receipt.totals)}
+${htmlRows(receipt.taxes)}
+</table>
+${(receipt.payments.length > 0) ? `<table>\n${htmlRows(receipt.payments)}\n</table>` : ""}
+${(receipt.notice != null) ? `<p class="notice">${escapeHtml(receipt.notice)}</p>` : ""}
+<footer>${receipt.footer.map(line => `<div>${escapeHtml(line)}</div>`).join("")}</footer>
+</body>
+</html>
+`;
+}
+
+// ------------------------------ PDF ------------------------------ //
+
+function renderPdf(receipt: Receipt): Readable {
+    const doc = new PDFDocument({size: "A5", margin: 40});
+    const width = doc.page.width - 80;
+
+    const row = (label: string, value: string, indent: number = 0) => {
+        const y = doc.y;
+        doc.text(label, 40 + indent, y, {width: width - indent});
+        doc.text(value, 40, y, {width: width, align: "right"});
+    };
+    const separator = () => {
+        doc.moveDown(0.5);
+        doc.moveTo(40, doc.y).lineTo(40 + width, doc.y).dash(2, {space: 2}).stroke().undash();
+        doc.moveDown(0.5);
+    };
+
+    doc.font("Helvetica-Bold").fontSize(12);
+    receipt.header.forEach(line => doc.text(line, {width: width, align: "center"}));
+    doc.font("Helvetica").fontSize(9);
+    separator();
+    receipt.details.forEach(r => row(r.label, r.value));
+    separator();
+    for (const item of receipt.items) {
+        doc.text(item.name, 40, doc.y, {width: width});
+        row(`${item.quantity} x ${item.price}`, item.subtotal, 10);
+        if (item.discount != null) {
+            row("Discount", item.discount, 10);
+        }
+        if (item.returned != null) {
+            doc.text(`Returned: ${item.returned}`, 50, doc.y, {width: width - 10});
+        }
+    }
+    separator();
+    doc.font("Helvetica-Bold");
+    receipt.totals.forEach(r => row(r.label, r.value));
+    doc.font("Helvetica");
+    receipt.taxes.forEach(r => row(r.label, r.value));
+    if (receipt.payments.length > 0) {
+        separator();
+        receipt.payments.forEach(r => row(r.label, r.value));
+    }
+    if (receipt.notice != null) {
+        separator();
+        doc.font("Helvetica-Bold").text(receipt.notice, 40, doc.y, {width: width, align: "center"});
+        doc.font("Helvetica");
+    }
+    separator();
+    receipt.footer.forEach(line => doc.text(line, 40, doc.y, {width: width, align: "center"}));
+
+    doc.end();
+    return doc;
+}
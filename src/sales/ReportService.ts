@@ -0,0 +1,191 @@
+/**
+ * Aggregates the completed sales for reporting. The aggregation runs in the database (SQL GROUP BY),
+ * so the sales are never loaded into memory.
+ */
+import { col, fn, Op, ProjectionAlias, Utils, where, WhereOptions } from "sequelize";
+import { UUID } from "../common/types";
+import { SaleItem } from "./saleItemModel";
+import { Sale, SaleStatus } from "./saleModel";
+import { PaymentMethod } from "./salePaymentModel";
+import { paidWithWhere } from "./PaymentService";
+import { getLocalDay } from "../utils/dates";
+
+export enum ReportGroupBy {
+    DAY = "day",
+    LOCATION = "location",
+    SELLER = "seller",
+    PRODUCT = "product",
+    CATEGORY = "category",
+    TAX_RATE = "taxRate",
+}
+
+export interface ReportFilters {
+    /** First day (inclusive), in the report's time zone. */
+    startDate: Date,
+    /** Last day (inclusive), in the report's time zone. */
+    endDate: Date,
+    locationId?: UUID,
+    sellerId?: UUID,
+    /** Sales paid (at least partially) with this payment method. */
+    paymentMethod?: PaymentMethod,
+}
+
+export interface ReportRow {
+    /** The group's value, e.g., the day "2022-09-01" or a locationId. Missing for the totals. */
+    key?: string,
+    /** A readable name for the group, e.g., the location's address. */
+    label?: string,
+    sales: number,
+    units: number,
+    returnedUnits: number,
+    subtotal: number,
+    discount: number,
+    revenue: number,
+    refunded: number,
+    netRevenue: number,
+    /** Revenue without VAT. */
+    net: number,
+    /** VAT included in the revenue. */
+    tax: number,
+}
+
+/** A row of the aggregate query. Postgres returns COUNT and SUM over integers as numeric strings. */
+interface AggregateRow {
+    /** Missing without grouping. */
+    key?: string,
+    label?: string | null,
+    sales: string,
+    units: string,
+    returnedUnits: string,
+    subtotal: string,
+    discount: string,
+    revenue: string,
+    refunded: string,
+    net: string,
+    tax: string,
+}
+
+// Day boundaries follow the festival's time zone.
+const REPORT_TIMEZONE = "Europe/Lisbon";
+
+const SALE_LOCAL_DATE: Utils.Fn = fn("date", fn("timezone", REPORT_TIMEZONE, col("sale.createdAt")));
+
+// The key and label expressions of each grouping.
+const GROUPS: Record<ReportGroupBy, {key: Utils.Fn | Utils.Col, label?: Utils.Col}> = {
+    [ReportGroupBy.DAY]: {
+        key: fn("to_char", SALE_LOCAL_DATE, "YYYY-MM-DD"),
+    },
+    [ReportGroupBy.LOCATION]: {
+        key: col("sale.locationId"),
+        label: col("sale->location.address"),
+    },
+    [ReportGroupBy.SELLER]: {
+        key: col("sale.sellerId"),
+        label: col("sale->seller.name"),
+    },
+    [ReportGroupBy.PRODUCT]: {
+        key: col("SaleItem.productId"),
+        label: col("product.name"),
+    },
+    [ReportGroupBy.CATEGORY]: {
+        key: col("product.category"),
+    },
+    [ReportGroupBy.TAX_RATE]: {
+        key: col("SaleItem.taxRate"),
+    },
+};
+
+/**
+ * Sums the completed sales' items in the given date range.
+ *
+ * @param filters The date range and optional filters.
+ * @param groupBy How to group the sales. If omitted, a single row with the totals is returned.
+ * @returns A promise to be either resolved with the report rows, ordered by key, or rejected with an Error.
+ */
+export async function aggregateSales(filters: ReportFilters, groupBy?: ReportGroupBy): Promise<ReportRow[]> {
+    const { startDate, endDate, locationId, sellerId, paymentMethod } = filters;
+    const group = (groupBy != null) ? GROUPS[groupBy] : null;
+
+    const saleWhere: WhereOptions = {
+        status: SaleStatus.COMPLETED,
+        ...(locationId) ? {locationId: locationId} : {},
+        ...(sellerId) ? {sellerId: sellerId} : {},
+        ...(paymentMethod) ? paidWithWhere(paymentMethod) : {},
+        [Op.and]: [
+            where(SALE_LOCAL_DATE, {[Op.between]: [toDateOnly(startDate), toDateOnly(endDate)]})
+        ],
+    };
+
+    const attributes: ProjectionAlias[] = [
+        [fn("COUNT", fn("DISTINCT", col("sale.saleId"))), "sales"],
+        [fn("COALESCE", fn("SUM", col("SaleItem.quantity")), 0), "units"],
+        [fn("COALESCE", fn("SUM", col("SaleItem.returned")), 0), "returnedUnits"],
+        [fn("COALESCE", fn("SUM", col("SaleItem.subtotal")), 0), "subtotal"],
+        [fn("COALESCE", fn("SUM", col("SaleItem.discount")), 0), "discount"],
+        [fn("COALESCE", fn("SUM", col("SaleItem.total")), 0), "revenue"],
+        [fn("COALESCE", fn("SUM", col("SaleItem.refunded")), 0), "refunded"],
+        [fn("COALESCE", fn("SUM", col("SaleItem.net")), 0), "net"],
+        [fn("COALESCE", fn("SUM", col("SaleItem.tax")), 0), "tax"],
+    ];
+    const groupExpressions: (Utils.Fn | Utils.Col)[] = [];
+    if (group != null) {
+        attributes.unshift([group.key, "key"]);
+        groupExpressions.push(group.key);
+        if (group.label != null) {
+            attributes.unshift([group.label, "label"]);
+            groupExpressions.push(group.label);
+        }
+    }
+
+    const result = await SaleItem.findAll({
+        raw: true,
+        attributes: attributes,
+        include: [
+            {
+                association: SaleItem.associations.sale,
+                attributes: [],
+                where: saleWhere,
+                include: [
+                    ...(groupBy == ReportGroupBy.LOCATION) ? [{association: Sale.associations.location, attributes: []}] : [],
+                    ...(groupBy == ReportGroupBy.SELLER) ? [{association: Sale.associations.seller, attributes: []}] : [],
+                ],
+            },
+            ...(groupBy == ReportGroupBy.PRODUCT || groupBy == ReportGroupBy.CATEGORY) ? [{
+                association: SaleItem.associations.product,
+                attributes: [],
+            }] : [],
+        ],
+        group: groupExpressions,
+        order: (group != null) ? [[group.key, "asc"]] : undefined,
+    }) as unknown as AggregateRow[];
+
+    return result.map(row => ({
+        key: (row.key != null) ? String(row.key) : undefined,
+        label: row.label ?? undefined,
+        sales: Number(row.sales),
+        units: Number(row.units),
+        returnedUnits: Number(row.returnedUnits),
+        subtotal: Number(row.subtotal),
+        discount: Number(row.discount),
+        revenue: Number(row.revenue),
+        refunded: Number(row.refunded),
+        netRevenue: Number(row.revenue) - Number(row.refunded),
+        net: Number(row.net),
+        tax: Number(row.tax),
+    }));
+}
+
+/**
+ * @returns The current day in the report's time zone, at midnight UTC (e.g., 2022-09-01T00:00:00Z).
+ */
+export function getReportToday(): Date {
+    return getLocalDay(new Date(), REPORT_TIMEZONE);
+}
+
+/**
+ * @param date A date.
+ * @returns The date part, e.g., "2022-09-01".
+ */
+function toDateOnly(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
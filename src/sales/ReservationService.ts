@@ -0,0 +1,160 @@
+/**
+ * Pending sales reserve stock for a limited time, without consuming it.
+ * The reserved quantities must be subtracted from the stock before selling.
+ */
+import { col, fn, Op, Transaction } from "sequelize";
+import { sales as config } from "../config.json";
+import { UUID } from "../common/types";
+import { getNowAfterSeconds } from "../utils/crypto";
+import { appLogger } from "../utils/logger";
+import { unredeemPromotion } from "../promotions/PromotionService";
+import { SaleItem } from "./saleItemModel";
+import { Sale, SaleStatus } from "./saleModel";
+
+export interface ReservedStock {
+    productId: UUID,
+    locationId: UUID,
+    quantity: number,
+}
+
+/** A row of the reserved stock query. Sequelize names the included column after its association. */
+interface ReservedStockRow {
+    productId: UUID,
+    "sale.locationId": UUID,
+    /** Postgres returns SUM over integers as a numeric string. */
+    quantity: string,
+}
+
+const RESERVATION_SECONDS: number = config.reservationSeconds;
+const SWEEP_INTERVAL_SECONDS: number = config.sweepIntervalSeconds;
+let sweeper: NodeJS.Timer | null = null;
+
+/**
+ * @returns The date when a reservation made now expires.
+ */
+export function getReservationExpiresDate(): Date {
+    return getNowAfterSeconds(RESERVATION_SECONDS);
+}
+
+/**
+ * Sums the quantities held by active reservations (i.e., pending sales that haven't expired),
+ * for each product and location.
+ *
+ * @param productIds The products' unique identifiers.
+ * @param locationId If specified, only reservations at this location are considered.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the reserved stock or rejected with an Error.
+ */
+export async function getReservedStock(
+    productIds: UUID[],
+    locationId?: UUID,
+    transaction?: Transaction
+): Promise<ReservedStock[]> {
+    const result = await SaleItem.findAll({
+        raw: true,
+        attributes: [
+            "productId",
+            [fn("SUM", col("SaleItem.quantity")), "quantity"]
+        ],
+        where: { productId: productIds },
+        include: {
+            association: SaleItem.associations.sale,
+            attributes: ["locationId"],
+            where: {
+                status: SaleStatus.PENDING,
+                expiresAt: {
+                    [Op.gt]: new Date()
+                },
+                ...(locationId) ? {locationId: locationId} : {}
+            }
+        },
+        group: ["SaleItem.productId", "sale.locationId"],
+        transaction,
+    }) as unknown as ReservedStockRow[];
+
+    return result.map(row => ({
+        productId: row.productId,
+        locationId: row["sale.locationId"],
+        quantity: Number(row.quantity),
+    }));
+}
+
+/**
+ * Cancels a pending sale. The stock was never consumed, so there's nothing to restore.
+ * The sale's promo code may be used again.
+ *
+ * @param sale The pending sale.
+ * @param reason Why the reservation was released.
+ * @param userId The user who released the reservation, if any.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the cancelled sale, or null if it's no longer pending
+ * (e.g., a concurrent request confirmed it), or rejected with an Error.
+ */
+export async function releaseReservation(sale: Sale, reason: string, userId: UUID | null, transaction: Transaction): Promise<Sale | null> {
+    const values = {
+        status: SaleStatus.CANCELLED,
+        expiresAt: null,
+        cancelledById: userId,
+        cancelReason: reason,
+        cancelledAt: new Date(),
+    };
+
+    // Checked again when updating, as the sale may have changed since it was read.
+    const [ count ] = await Sale.update(values, {
+        where: { saleId: sale.saleId, status: SaleStatus.PENDING },
+        transaction
+    });
+    if (count == 0) {
+        return null;
+    }
+
+    if (sale.promotionId != null) {
+        await unredeemPromotion(sale.promotionId, transaction);
+    }
+    return sale.set(values);
+}
+
+/**
+ * Cancels every pending sale whose reservation has expired.
+ *
+ * @returns A promise to be either resolved with the number of released sales or rejected with an Error.
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+    return await Sale.sequelize!!.transaction(async (transaction) => {
+        const expired = await Sale.findAll({
+            where: {
+                status: SaleStatus.PENDING,
+                expiresAt: {
+                    [Op.lte]: new Date()
+                }
+            },
+            transaction,
+        });
+
+        let released = 0;
+        for (const sale of expired) {
+            if (await releaseReservation(sale, "Reservation expired.", null, transaction) != null) {
+                released++;
+            }
+        }
+        return released;
+    });
+}
+
+/**
+ * Periodically releases the expired reservations. Only one sweeper runs at a time.
+ */
+export function startReservationSweeper(): void {
+    if (sweeper != null) return;
+
+    sweeper = setInterval(async () => {
+        try {
+            const count = await releaseExpiredReservations();
+            if (count > 0) {
+                appLogger.info(`Released ${count} expired reservation(s).`);
+            }
+        } catch (err) {
+            appLogger.error(err);
+        }
+    }, SWEEP_INTERVAL_SECONDS * 1000);
+}
@@ -0,0 +1,62 @@
+/**
+ * Prices are VAT inclusive. The VAT rate of a product is its own rate or, if missing, its category's rate.
+ * Each sale item keeps the rate and amounts at the time of the sale, so later rate changes don't affect it.
+ */
+import { tax as config } from "../config.json";
+import { ProductCategory, TaxRate } from "../products/types";
+
+/** The VAT amounts of a price. */
+export interface TaxBreakdown {
+    net: number,
+    tax: number,
+    gross: number,
+}
+
+/** The VAT totals of a rate. */
+export interface TaxSummary extends TaxBreakdown {
+    rate: TaxRate,
+}
+
+const CATEGORY_RATES: Record<string, TaxRate> = config.categoryRates;
+const DEFAULT_RATE: TaxRate = config.defaultRate;
+
+/**
+ * @param product The product's category and its own rate, if any.
+ * @returns The product's VAT rate, in percentage.
+ */
+export function getTaxRate(product: {category: ProductCategory, taxRate?: TaxRate | null}): TaxRate {
+    return product.taxRate ?? CATEGORY_RATES[product.category] ?? DEFAULT_RATE;
+}
+
+/**
+ * Splits a VAT inclusive amount into its net and tax amounts. The net amount is rounded to the cent.
+ *
+ * @param gross The amount, in euro cents, including VAT.
+ * @param rate The VAT rate, in percentage.
+ * @returns The net, tax and gross amounts, in euro cents.
+ */
+export function splitTax(gross: number, rate: TaxRate): TaxBreakdown {
+    const net = Math.round(gross * 100 / (100 + rate));
+    return {net: net, tax: gross - net, gross: gross};
+}
+
+/**
+ * Sums the amounts of each VAT rate.
+ *
+ * @param items The items' rate and amounts.
+ * @returns The totals of each rate, ordered by rate.
+ */
+export function summarizeTaxes(items: (TaxBreakdown & {taxRate: TaxRate})[]): TaxSummary[] {
+    const summaries: TaxSummary[] = [];
+    for (const item of items) {
+        let summary = summaries.find(s => s.rate == item.taxRate);
+        if (summary == null) {
+            summary = {rate: item.taxRate, net: 0, tax: 0, gross: 0};
+            summaries.push(summary);
+        }
+        summary.net += item.net;
+        summary.tax += item.tax;
+        summary.gross += item.gross;
+    }
+    return summaries.sort((a, b) => a.rate - b.rate);
+}
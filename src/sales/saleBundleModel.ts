@@ -0,0 +1,73 @@
+import { Association, BelongsToGetAssociationMixin, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
+import { UUID } from "../common/types";
+import { Product } from "../products/productModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { Sale } from "./saleModel";
+
+/**
+ * A bundle sold in a sale. The sale's items are the bundle's components,
+ * so this only records which bundles were sold and at what price.
+ */
+export class SaleBundle extends Model<InferAttributes<SaleBundle>, InferCreationAttributes<SaleBundle>> {
+    declare saleId: ForeignKey<UUID>;
+    declare productId: ForeignKey<UUID>;
+    declare quantity: number;
+    declare price: number;
+
+    declare getSale: BelongsToGetAssociationMixin<Sale>;
+    declare getProduct: BelongsToGetAssociationMixin<Product>;
+
+    // Eager loaded properties
+    declare sale?: NonAttribute<Sale>;
+    declare product?: NonAttribute<Product>;
+
+    declare static associations: {
+        sale: Association<SaleBundle, Sale>,
+        product: Association<SaleBundle, Product>,
+    }
+}
+
+registerModel(initSaleBundleModel);
+registerAssociations(initSaleBundleAssociations);
+
+async function initSaleBundleModel(sequelize: Sequelize): Promise<void> {
+    SaleBundle.init(
+        {
+            saleId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            // The bundle.
+            productId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            quantity: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 1,
+                }
+            },
+            // The bundle's price in euro cents, at the time of the sale.
+            price: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "sale_bundle",
+            timestamps: false,
+        }
+    )
+}
+
+async function initSaleBundleAssociations(): Promise<void> {
+    Sale.hasMany(SaleBundle, {as: "bundles", foreignKey: "saleId"});
+    SaleBundle.belongsTo(Sale, {as: "sale", foreignKey: "saleId"});
+    SaleBundle.belongsTo(Product, {as: "product", foreignKey: "productId"});
+}
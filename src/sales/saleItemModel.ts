@@ -1,16 +1,37 @@
-import { Association, BelongsToGetAssociationMixin, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
+import { Association, BelongsToGetAssociationMixin, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, QueryTypes, Sequelize } from "sequelize";
 import { UUID } from "../common/types";
 import { Product } from "../products/productModel";
 import { Stock } from "../products/stockModel";
-import { registerAssociations, registerModel } from "../sequelize";
+import { ProductCategory, TaxRate } from "../products/types";
+import { registerAssociations, registerMigration, registerModel } from "../sequelize";
+import { User } from "../users/userModel";
 import { Sale } from "./saleModel";
+import { getTaxRate, splitTax } from "./TaxService";
+
+/** Why a product was sold below its catalog price. */
+export enum PriceOverrideReason {
+    DAMAGED = "damaged",
+    DISPLAY_ITEM = "display_item",
+    PRICE_MATCH = "price_match",
+    OTHER = "other",
+}
 
 export class SaleItem extends Model<InferAttributes<SaleItem>, InferCreationAttributes<SaleItem>> {
     declare saleId: ForeignKey<UUID>;
     declare productId: ForeignKey<UUID>;
     declare quantity: number;
     declare price: number;
+    declare subtotal: number;
+    declare discount: CreationOptional<number>;
     declare total: number;
+    declare taxRate: TaxRate;
+    declare net: number;
+    declare tax: number;
+    declare returned: CreationOptional<number>;
+    declare refunded: CreationOptional<number>;
+    declare overridePrice: CreationOptional<number | null>;
+    declare overrideReason: CreationOptional<PriceOverrideReason | null>;
+    declare overrideApprovedById: CreationOptional<UUID | null>;
 
     declare getSale: BelongsToGetAssociationMixin<Sale>;
     declare getProduct: BelongsToGetAssociationMixin<Product>;
@@ -19,16 +40,19 @@ export class SaleItem extends Model<InferAttributes<SaleItem>, InferCreationAttr
     declare sale?: NonAttribute<Sale>;
     declare product?: NonAttribute<Product>;
     declare stock?: NonAttribute<Stock>;
+    declare overrideApprovedBy?: NonAttribute<User>;
 
     declare static associations: {
         sale: Association<SaleItem, Sale>,
         product: Association<SaleItem, Product>,
         stock: Association<SaleItem, Stock>,
+        overrideApprovedBy: Association<SaleItem, User>,
     }
 }
 
 registerModel(initSaleItemModel);
 registerAssociations(initSaleItemAssociations);
+registerMigration(migrateSaleItems);
 
 async function initSaleItemModel(sequelize: Sequelize): Promise<void> {
     SaleItem.init(
@@ -56,13 +80,91 @@ async function initSaleItemModel(sequelize: Sequelize): Promise<void> {
                     min: 0,
                 }
             },
-            // Total in euro cents.
+            // Price times quantity, in euro cents.
+            subtotal: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+            // Discount in euro cents.
+            discount: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+                validate: {
+                    min: 0,
+                }
+            },
+            // Total in euro cents. Subtotal minus discount.
             total: {
                 type: DataTypes.INTEGER,
                 allowNull: false,
                 validate: {
                     min: 0,
                 }
+            },
+            // VAT rate in percentage, at the time of the sale.
+            taxRate: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                    max: 100,
+                }
+            },
+            // Total without VAT, in euro cents.
+            net: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+            // VAT included in the total, in euro cents.
+            tax: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+            // Quantity returned by the customer.
+            returned: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+                validate: {
+                    min: 0,
+                }
+            },
+            // Refunded amount in euro cents.
+            refunded: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+                validate: {
+                    min: 0,
+                }
+            },
+            // Unit price charged instead of the catalog price, in euro cents. The difference is part of the discount.
+            overridePrice: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 0,
+                }
+            },
+            overrideReason: {
+                type: DataTypes.ENUM,
+                allowNull: true,
+                values: Object.values(PriceOverrideReason),
+            },
+            // The manager who approved an override beyond the threshold.
+            overrideApprovedById: {
+                type: DataTypes.UUID,
+                allowNull: true,
             }
         },
         {
@@ -83,4 +185,29 @@ async function initSaleItemAssociations(): Promise<void> {
     // The "foreignKeyConstraint: false" won't add the FK constraint 
     // and "foreignKey: productId" won't create an addional column.
     SaleItem.belongsTo(Stock, {as: "stock", foreignKey: "productId"});
-}
\ No newline at end of file
+
+    SaleItem.belongsTo(User, {as: "overrideApprovedBy", foreignKey: "overrideApprovedById"});
+}
+
+/**
+ * Items sold before promotions had no discount, so their subtotal is the total.
+ * Items sold before VAT was recorded get their product's current rate.
+ */
+async function migrateSaleItems(sequelize: Sequelize): Promise<void> {
+    await sequelize.query(`UPDATE "sale_item" SET "subtotal" = "total" + "discount" WHERE "subtotal" IS NULL`);
+
+    const items = await sequelize.query<{saleId: UUID, productId: UUID, total: number, category: ProductCategory, taxRate: TaxRate | null}>(
+        `SELECT "sale_item"."saleId", "sale_item"."productId", "sale_item"."total", "product"."category", "product"."taxRate"
+         FROM "sale_item" JOIN "product" ON "product"."productId" = "sale_item"."productId"
+         WHERE "sale_item"."taxRate" IS NULL`,
+        {type: QueryTypes.SELECT}
+    );
+    for (const item of items) {
+        const taxRate = getTaxRate(item);
+        const { net, tax } = splitTax(item.total, taxRate);
+        await SaleItem.update(
+            {taxRate, net, tax},
+            {where: {saleId: item.saleId, productId: item.productId}}
+        );
+    }
+}
@@ -1,9 +1,14 @@
 import { Association, BelongsToGetAssociationMixin, CreationOptional, DataTypes, HasManyGetAssociationsMixin, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
 import { UUID } from "../common/types";
+import { Invoice } from "../invoices/invoiceModel";
 import { Location } from "../locations/locationModel";
-import { registerAssociations, registerModel } from "../sequelize";
+import { Promotion } from "../promotions/promotionModel";
+import { registerAssociations, registerMigration, registerModel } from "../sequelize";
 import { User } from "../users/userModel";
+import { SaleBundle } from "./saleBundleModel";
 import { SaleItem } from "./saleItemModel";
+import { SalePayment } from "./salePaymentModel";
+import { SaleReturn } from "./saleReturnModel";
 
 export enum SaleStatus {
     COMPLETED = "completed",
@@ -13,11 +18,26 @@ export enum SaleStatus {
 
 export class Sale extends Model<InferAttributes<Sale>, InferCreationAttributes<Sale>> {
     declare saleId: CreationOptional<UUID>;
-    declare customerId: CreationOptional<UUID>;
+    declare customerId: CreationOptional<UUID | null>;
     declare sellerId: CreationOptional<UUID>;
     declare locationId: CreationOptional<UUID>;
+    declare promotionId: CreationOptional<UUID | null>;
     declare status: SaleStatus;
+    declare subtotalPrice: number;
+    declare discount: CreationOptional<number>;
     declare totalPrice: number;
+    declare refundedPrice: CreationOptional<number>;
+    declare expiresAt: CreationOptional<Date | null>;
+    declare cancelledById: CreationOptional<UUID | null>;
+    declare cancelReason: CreationOptional<string | null>;
+    declare cancelledAt: CreationOptional<Date | null>;
+    declare clientId: CreationOptional<string | null>;
+    declare stockOverride: CreationOptional<boolean>;
+    declare reviewedById: CreationOptional<UUID | null>;
+    declare reviewedAt: CreationOptional<Date | null>;
+    declare hoursApprovedById: CreationOptional<UUID | null>;
+    declare customerNif: CreationOptional<string | null>;
+    declare closingId: CreationOptional<UUID | null>;
     declare createdAt: CreationOptional<Date>;
     declare updatedAt: CreationOptional<Date>;
 
@@ -27,23 +47,44 @@ export class Sale extends Model<InferAttributes<Sale>, InferCreationAttributes<S
 
     declare getSeller: BelongsToGetAssociationMixin<User>;
 
+    declare getPromotion: BelongsToGetAssociationMixin<Promotion>;
+
+    declare getCancelledBy: BelongsToGetAssociationMixin<User>;
+
+    declare getReviewedBy: BelongsToGetAssociationMixin<User>;
+
     // Eager loaded properties
     declare items?: NonAttribute<SaleItem[]>;
+    declare returns?: NonAttribute<SaleReturn[]>;
+    declare payments?: NonAttribute<SalePayment[]>;
     declare customer?: NonAttribute<User>;
     declare seller?: NonAttribute<User>;
+    declare cancelledBy?: NonAttribute<User>;
+    declare reviewedBy?: NonAttribute<User>;
     declare location?: NonAttribute<Location>;
+    declare promotion?: NonAttribute<Promotion>;
+    declare invoices?: NonAttribute<Invoice[]>;
+    declare bundles?: NonAttribute<SaleBundle[]>;
 
     declare static associations: {
         items: Association<Sale, SaleItem>,
         items2: Association<Sale, SaleItem>,
+        returns: Association<Sale, SaleReturn>,
+        payments: Association<Sale, SalePayment>,
         customer: Association<Sale, User>,
         seller: Association<Sale, User>,
+        cancelledBy: Association<Sale, User>,
+        reviewedBy: Association<Sale, User>,
         location: Association<Sale, Location>,
+        promotion: Association<Sale, Promotion>,
+        invoices: Association<Sale, Invoice>,
+        bundles: Association<Sale, SaleBundle>,
     }
 }
 
 registerModel(initSaleModel);
 registerAssociations(initSaleAssociations);
+registerMigration(migrateSales);
 
 async function initSaleModel(sequelize: Sequelize): Promise<void> {
     Sale.init(
@@ -56,8 +97,10 @@ async function initSaleModel(sequelize: Sequelize): Promise<void> {
                     isUUID: 4
                 }
             },
+            // Sales may be anonymous.
             customerId: {
                 type: DataTypes.UUID,
+                allowNull: true,
             },
             sellerId: {
                 type: DataTypes.UUID,
@@ -65,12 +108,34 @@ async function initSaleModel(sequelize: Sequelize): Promise<void> {
             locationId: {
                 type: DataTypes.UUID,
             },
+            // The applied promo code, if any.
+            promotionId: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
             status: {
                 type: DataTypes.ENUM,
                 allowNull: false,
                 values: Object.values(SaleStatus)
             },
-            // Price in euro cents.
+            // Sum of the items' subtotal, in euro cents.
+            subtotalPrice: {
+                type: DataTypes.BIGINT,
+                allowNull: false,
+                validate: {
+                    min: 0
+                }
+            },
+            // Discount in euro cents.
+            discount: {
+                type: DataTypes.BIGINT,
+                allowNull: false,
+                defaultValue: 0,
+                validate: {
+                    min: 0
+                }
+            },
+            // Price in euro cents. Subtotal minus discount.
             totalPrice: {
                 type: DataTypes.BIGINT,
                 allowNull: false,
@@ -78,6 +143,68 @@ async function initSaleModel(sequelize: Sequelize): Promise<void> {
                     min: 0
                 }
             },
+            // Refunded amount in euro cents.
+            refundedPrice: {
+                type: DataTypes.BIGINT,
+                allowNull: false,
+                defaultValue: 0,
+                validate: {
+                    min: 0
+                }
+            },
+            // Pending sales hold stock until this date.
+            expiresAt: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            // The manager who cancelled the sale, if any.
+            cancelledById: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
+            cancelReason: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
+            cancelledAt: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            // Identifier generated by the device that recorded the sale offline.
+            clientId: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
+            // True if the sale was accepted without enough stock. Must be reviewed by a manager.
+            stockOverride: {
+                type: DataTypes.BOOLEAN,
+                allowNull: false,
+                defaultValue: false,
+            },
+            // The manager who reviewed the stock override, if any.
+            reviewedById: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
+            reviewedAt: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            // The manager who approved selling while the location was closed, if any.
+            hoursApprovedById: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
+            // The customer's tax number (NIF), printed on the invoice.
+            customerNif: {
+                type: DataTypes.STRING(9),
+                allowNull: true,
+            },
+            // The location's closing that included this sale. Null until the period is closed.
+            closingId: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
             createdAt: {
                 type: DataTypes.DATE,
                 allowNull: false,
@@ -91,6 +218,10 @@ async function initSaleModel(sequelize: Sequelize): Promise<void> {
             sequelize: sequelize,
             tableName: "sale",
             timestamps: true,
+            indexes: [
+                // Offline sales are only uploaded once.
+                {unique: true, fields: ["sellerId", "clientId"]}
+            ]
         }
     )
 }
@@ -103,9 +234,20 @@ async function initSaleAssociations(): Promise<void> {
 
     Sale.belongsTo(User, {as: "customer", foreignKey: "customerId"});
     Sale.belongsTo(User, {as: "seller", foreignKey: "sellerId"});
+    Sale.belongsTo(User, {as: "cancelledBy", foreignKey: "cancelledById"});
+    Sale.belongsTo(User, {as: "reviewedBy", foreignKey: "reviewedById"});
+    Sale.belongsTo(User, {as: "hoursApprovedBy", foreignKey: "hoursApprovedById"});
     Sale.belongsTo(Location, {as: "location", foreignKey: "locationId"});
+    Sale.belongsTo(Promotion, {as: "promotion", foreignKey: "promotionId"});
     
     User.hasMany(Sale, {foreignKey: "customerId"});
     User.hasMany(Sale, {foreignKey: "sellerId"});
     Location.hasMany(Sale, {foreignKey: "locationId"});
-}
\ No newline at end of file
+}
+
+/**
+ * Sales created before promotions had no discount, so their subtotal is the total.
+ */
+async function migrateSales(sequelize: Sequelize): Promise<void> {
+    await sequelize.query(`UPDATE "sale" SET "subtotalPrice" = "totalPrice" + "discount" WHERE "subtotalPrice" IS NULL`);
+}
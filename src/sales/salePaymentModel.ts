@@ -0,0 +1,87 @@
+import { Association, BelongsToGetAssociationMixin, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { registerAssociations, registerModel } from "../sequelize";
+import { Sale } from "./saleModel";
+
+/** The accepted payment methods. */
+export enum PaymentMethod {
+    CASH = "cash",
+    CARD = "card",
+    MBWAY = "mbway",
+}
+
+export class SalePayment extends Model<InferAttributes<SalePayment>, InferCreationAttributes<SalePayment>> {
+    declare paymentId: CreationOptional<UUID>;
+    declare saleId: ForeignKey<UUID>;
+    declare method: PaymentMethod;
+    declare amount: number;
+    declare tendered: number;
+    declare change: number;
+
+    declare getSale: BelongsToGetAssociationMixin<Sale>;
+
+    // Eager loaded properties
+    declare sale?: NonAttribute<Sale>;
+
+    declare static associations: {
+        sale: Association<SalePayment, Sale>,
+    }
+}
+
+registerModel(initSalePaymentModel);
+registerAssociations(initSalePaymentAssociations);
+
+async function initSalePaymentModel(sequelize: Sequelize): Promise<void> {
+    SalePayment.init(
+        {
+            paymentId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            method: {
+                type: DataTypes.ENUM,
+                allowNull: false,
+                values: Object.values(PaymentMethod)
+            },
+            // Amount applied to the sale, in euro cents.
+            amount: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+            // Amount received from the customer, in euro cents.
+            tendered: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+            // Change given back to the customer, in euro cents. Only cash payments have change.
+            change: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+                validate: {
+                    min: 0,
+                }
+            }
+        },
+        {
+            sequelize: sequelize,
+            tableName: "sale_payment",
+            timestamps: false,
+        }
+    )
+}
+
+async function initSalePaymentAssociations(): Promise<void> {
+    Sale.hasMany(SalePayment, {as: "payments", foreignKey: "saleId"});
+    SalePayment.belongsTo(Sale, {as: "sale", foreignKey: "saleId"});
+}
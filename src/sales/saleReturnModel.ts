@@ -0,0 +1,97 @@
+import { Association, BelongsToGetAssociationMixin, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { Location } from "../locations/locationModel";
+import { Product } from "../products/productModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { User } from "../users/userModel";
+import { Sale } from "./saleModel";
+
+export class SaleReturn extends Model<InferAttributes<SaleReturn>, InferCreationAttributes<SaleReturn>> {
+    declare returnId: CreationOptional<UUID>;
+    declare saleId: ForeignKey<UUID>;
+    declare productId: ForeignKey<UUID>;
+    declare locationId: ForeignKey<UUID>;
+    declare userId: ForeignKey<UUID>;
+    declare quantity: number;
+    declare amount: number;
+    declare reason: string;
+    declare createdAt: CreationOptional<Date>;
+
+    declare getSale: BelongsToGetAssociationMixin<Sale>;
+    declare getProduct: BelongsToGetAssociationMixin<Product>;
+    declare getLocation: BelongsToGetAssociationMixin<Location>;
+    declare getUser: BelongsToGetAssociationMixin<User>;
+
+    // Eager loaded properties
+    declare sale?: NonAttribute<Sale>;
+    declare product?: NonAttribute<Product>;
+    declare location?: NonAttribute<Location>;
+    declare user?: NonAttribute<User>;
+
+    declare static associations: {
+        sale: Association<SaleReturn, Sale>,
+        product: Association<SaleReturn, Product>,
+        location: Association<SaleReturn, Location>,
+        user: Association<SaleReturn, User>,
+    }
+}
+
+registerModel(initSaleReturnModel);
+registerAssociations(initSaleReturnAssociations);
+
+async function initSaleReturnModel(sequelize: Sequelize): Promise<void> {
+    SaleReturn.init(
+        {
+            returnId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            quantity: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 1,
+                }
+            },
+            // Refunded amount in euro cents.
+            amount: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 0,
+                }
+            },
+            reason: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                validate: {
+                    notEmpty: true
+                }
+            },
+            createdAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            }
+        },
+        {
+            sequelize: sequelize,
+            tableName: "sale_return",
+            timestamps: true,
+            updatedAt: false,
+        }
+    )
+}
+
+async function initSaleReturnAssociations(): Promise<void> {
+    Sale.hasMany(SaleReturn, {as: "returns", foreignKey: "saleId"});
+    SaleReturn.belongsTo(Sale, {as: "sale", foreignKey: "saleId"});
+    SaleReturn.belongsTo(Product, {as: "product", foreignKey: "productId"});
+
+    // Returned items may restock a location other than the sale's location.
+    SaleReturn.belongsTo(Location, {as: "location", foreignKey: "locationId"});
+    SaleReturn.belongsTo(User, {as: "user", foreignKey: "userId"});
+}
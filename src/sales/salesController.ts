@@ -1,19 +1,65 @@
-import { Body, Controller, Get, Path, Post, Query, Request, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
-import { Role } from "../common/roles";
+import { Body, Controller, FieldErrors, Get, Header, Path, Post, Query, Request, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
+import { hasRolePrivileges, Role } from "../common/roles";
 import { AuthRequest, SecurityScheme } from "../security/authorization";
-import { SaleItem } from "./saleItemModel";
+import { PriceOverrideReason, SaleItem } from "./saleItemModel";
+import { SaleBundle } from "./saleBundleModel";
 import { Sale, SaleStatus } from "./saleModel";
-import { UUID } from "../common/types";
+import { SaleReturn } from "./saleReturnModel";
+import { getReservationExpiresDate, getReservedStock, releaseReservation, ReservedStock } from "./ReservationService";
+import { hasDateExpired } from "../utils/crypto";
+import { PaymentMethod, SalePayment } from "./salePaymentModel";
+import { allocatePayments, paidWithWhere } from "./PaymentService";
+import { ReceiptFormat, renderReceipt } from "./ReceiptService";
+import { EXPORT_CONTENT_TYPES, ExportFormat, exportSales } from "./ExportService";
+import { aggregateSales, getReportToday, ReportFilters, ReportGroupBy, ReportRow } from "./ReportService";
+import { getTaxRate, splitTax, summarizeTaxes, TaxSummary } from "./TaxService";
+import { isValidNif, issueCreditNote, issueInvoice, toCreditLine } from "../invoices/InvoiceService";
+import { Promotion } from "../promotions/promotionModel";
+import { calculateDiscounts, findValidPromotion, redeemPromotion, unredeemPromotion } from "../promotions/PromotionService";
+import { Email, Nif, UUID } from "../common/types";
 import { Stock } from "../products/stockModel";
-import { InferAttributes, Op, Transaction } from "sequelize";
-import { BadRequestError, ConflitError, AppErrorCode, BadRequestErrorResponse, AuthenticationErrorResponse, ForbiddenErrorResponse, ServerErrorResponse, ConflitErrorResponse, AppError, NotFoundError } from "../common/errors";
+import { Location } from "../locations/locationModel";
+import { isOpen } from "../locations/LocationService";
+import { LocationType } from "../locations/types";
+import { calculateBundleDiscounts, expandBundles, findBundles } from "../products/BundleService";
+import { Price, TaxRate } from "../products/types";
+import { CreationAttributes, ForeignKeyConstraintError, Op, Transaction, UniqueConstraintError } from "sequelize";
+import { BadRequestError, ConflitError, AppErrorCode, BadRequestErrorResponse, AuthenticationErrorResponse, ForbiddenErrorResponse, ServerErrorResponse, ConflitErrorResponse, AppError, NotFoundError, NotFoundErrorResponse, ForbiddenError } from "../common/errors";
 import { User } from "../users/userModel";
+import { runIdempotent } from "../idempotency/IdempotencyService";
+import { retryTransaction } from "../sequelize";
+import { addStock, StockQuantity } from "../stock/StockService";
+import { MovementType } from "../stock/stockMovementModel";
+import { ApprovalScope, verifyApproval } from "../security/authController";
+import { sales as config } from "../config.json";
+import { Readable } from "stream";
+import { appLogger } from "../utils/logger";
 
 const DEFAULT_START_DATE: Date = new Date(2022, 1, 1);
 const DEFAULT_END_DATE: Date = new Date(2023, 1, 1);
 
 const TAG_SALES = "Sales";
 
+// Overrides with a bigger discount, in percentage of the catalog price, need a manager's approval.
+const PRICE_OVERRIDE_THRESHOLD: number = config.priceOverrideThreshold;
+
+// Sales recorded offline must be uploaded within this time, in seconds.
+const OFFLINE_WINDOW: number = config.offlineWindowSeconds;
+// Tolerated difference, in seconds, between the device's clock and the server's.
+const CLOCK_SKEW = 60;
+
+// The SaleItem attributes returned in a SaleInfo.
+const SALE_ITEM_ATTRIBUTES = [
+    "productId", "quantity", "price", "subtotal", "discount", "total", "taxRate", "net", "tax", "returned", "refunded",
+    "overridePrice", "overrideReason", "overrideApprovedById"
+];
+
+// The SalePayment attributes returned in a SaleInfo.
+const SALE_PAYMENT_ATTRIBUTES = ["method", "amount", "tendered", "change"];
+
+// The SaleBundle attributes returned in a SaleInfo.
+const SALE_BUNDLE_ATTRIBUTES = ["productId", "quantity", "price"];
+
 @Route("sales")
 export class SaleController extends Controller {
     /**
@@ -43,6 +89,12 @@ export class SaleController extends Controller {
      * @param productId Sales with this product.
      * 
      * @param locationId Sales at this location.
+     * 
+     * @param status Sales with this status. If omitted, cancelled sales are also returned (flagged by their status).
+     * 
+     * @param paymentMethod Sales paid (at least partially) with this payment method.
+     * 
+     * @param needsReview If true, only sales accepted without enough stock that haven't been reviewed yet.
      */
     @Get()
     @Tags(TAG_SALES)
@@ -69,7 +121,10 @@ export class SaleController extends Controller {
         @Query() endDate: Date = DEFAULT_END_DATE,
         @Query() productId?: UUID,
         @Query() sellerId?: UUID,
-        @Query() locationId?: UUID
+        @Query() locationId?: UUID,
+        @Query() status?: SaleStatus,
+        @Query() paymentMethod?: PaymentMethod,
+        @Query() needsReview?: boolean,
     ): Promise<SearchSalesResult> {
         // Sanity check. Don't allow startDate to be greater than endDate
         if (startDate > endDate) {
@@ -89,43 +144,334 @@ export class SaleController extends Controller {
             }));
         }
 
-        // Find sales
-        const result = await Sale.findAll({
-            limit: limit, 
-            offset: page * limit, 
+        const sales = await searchSales(
+            {startDate, endDate, productId, sellerId, locationId, status, paymentMethod, needsReview},
+            limit,
+            page
+        );
+
+        return {
+            status: 200,
+            data: sales
+        };
+    }
+
+    /**
+     * Same as "GET /sales", but only returns the sales of the authenticated seller.
+     * Also returns the seller's running total for the current day (in Lisbon), counting only completed sales.
+     * 
+     * @summary Get a list of the seller's own sales.
+     * 
+     * @param limit Limit the number of sales returned. Minimum 1.
+     * @isInt limit Must be an integer >= 1.
+     * @minimum limit 1 minimum 1.
+     * 
+     * @param page Used for pagination. When limit is used,
+     * chunks of sales will be skipped (e.g. if page=5 and limit=10, the first 50 sales will be skipped).
+     * @isInt page Must be an integer >= 0.
+     * @minimum page 0 minimum 0.
+     * 
+     * @param startDate Sales after this date (inclusive). Use UTC format, time is optional.
+     * @isDate startDate Must be a date like 'YYYY-MM-DD'.
+     * 
+     * @param endDate Sales before this date (inclusive). Use UTC format, time is optional.
+     * @isDate endDate Must be a date like 'YYYY-MM-DD'.
+     * 
+     * @param productId Sales with this product.
+     * 
+     * @param locationId Sales at this location. Also restricts the running total to this location.
+     */
+    @Get("mine")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the seller's sales.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getMySales(
+        @Request() request: AuthRequest,
+        @Query() limit: number = 10,
+        @Query() page: number = 0,
+        @Query() startDate: Date = DEFAULT_START_DATE,
+        @Query() endDate: Date = DEFAULT_END_DATE,
+        @Query() productId?: UUID,
+        @Query() locationId?: UUID,
+    ): Promise<GetMySalesResult> {
+        const sellerId: UUID = request.auth.userId;
+
+        // Sanity check. Don't allow startDate to be greater than endDate
+        if (startDate > endDate) {
+            return Promise.reject(new BadRequestError({
+                message: "Bad dates.",
+                code: AppErrorCode.REQ_FORMAT,
+                fields: {
+                    "startDate": {
+                        message: "startDate can't be greater than endDate",
+                        value: startDate
+                    },
+                    "endDate": {
+                        message: "endDate can't be less than startDate",
+                        value: endDate
+                    }
+                }
+            }));
+        }
+
+        const sales = await searchSales({startDate, endDate, productId, sellerId, locationId}, limit, page);
+        const today = getReportToday();
+        const [runningTotal] = await aggregateSales({startDate: today, endDate: today, sellerId, locationId});
+
+        return {
+            status: 200,
+            data: {
+                sales: sales,
+                day: today,
+                runningTotal: runningTotal,
+            }
+        };
+    }
+
+    /**
+     * Sums the completed sales (revenue, units sold and number of sales) in a date range, grouped by
+     * day, location, seller, product, product category or VAT rate. Cancelled and pending sales aren't counted.
+     * The VAT totals of each rate are always included.
+     * Days start and end at midnight in Lisbon.
+     * 
+     * @summary Get an aggregated sales report.
+     * 
+     * @param groupBy How to group the sales.
+     * 
+     * @param startDate First day of the report (inclusive).
+     * @isDate startDate Must be a date like 'YYYY-MM-DD'.
+     * 
+     * @param endDate Last day of the report (inclusive).
+     * @isDate endDate Must be a date like 'YYYY-MM-DD'.
+     * 
+     * @param locationId Sales at this location.
+     * 
+     * @param sellerId Sales by this seller.
+     * 
+     * @param paymentMethod Sales paid (at least partially) with this payment method.
+     */
+    @Get("reports")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned the sales report.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getSalesReport(
+        @Query() groupBy: ReportGroupBy = ReportGroupBy.DAY,
+        @Query() startDate: Date = DEFAULT_START_DATE,
+        @Query() endDate: Date = DEFAULT_END_DATE,
+        @Query() locationId?: UUID,
+        @Query() sellerId?: UUID,
+        @Query() paymentMethod?: PaymentMethod,
+    ): Promise<GetSalesReportResult> {
+        // Sanity check. Don't allow startDate to be greater than endDate
+        if (startDate > endDate) {
+            return Promise.reject(new BadRequestError({
+                message: "Bad dates.",
+                code: AppErrorCode.REQ_FORMAT,
+                fields: {
+                    "startDate": {
+                        message: "startDate can't be greater than endDate",
+                        value: startDate
+                    },
+                    "endDate": {
+                        message: "endDate can't be less than startDate",
+                        value: endDate
+                    }
+                }
+            }));
+        }
+
+        const filters: ReportFilters = {startDate, endDate, locationId, sellerId, paymentMethod};
+        const rows = await aggregateSales(filters, groupBy);
+        const [totals] = await aggregateSales(filters);
+        const taxes = await aggregateSales(filters, ReportGroupBy.TAX_RATE);
+
+        return {
+            status: 200,
+            data: {
+                groupBy: groupBy,
+                startDate: startDate,
+                endDate: endDate,
+                rows: rows,
+                totals: totals,
+                taxes: taxes,
+            }
+        };
+    }
+
+    /**
+     * Streams a spreadsheet with one row per sale item, including the product's name, category and tags,
+     * the seller's name and the location's address. Amounts are in euros.
+     * The filters are the same as in "GET /sales".
+     * 
+     * @summary Export sales as CSV or XLSX.
+     * 
+     * @param format The spreadsheet format.
+     * 
+     * @param startDate Sales after this date (inclusive). Use UTC format, time is optional.
+     * @isDate startDate Must be a date like 'YYYY-MM-DD'.
+     * 
+     * @param endDate Sales before this date (inclusive). Use UTC format, time is optional.
+     * @isDate endDate Must be a date like 'YYYY-MM-DD'.
+     * 
+     * @param productId Only items of this product.
+     * 
+     * @param sellerId Sales by this seller.
+     * 
+     * @param locationId Sales at this location.
+     * 
+     * @param status Sales with this status.
+     * 
+     * @param paymentMethod Sales paid (at least partially) with this payment method.
+     */
+    @Get("export")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully exported the sales.", ["text/csv", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"])
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async exportSales(
+        @Request() request: AuthRequest,
+        @Query() format: ExportFormat = ExportFormat.CSV,
+        @Query() startDate: Date = DEFAULT_START_DATE,
+        @Query() endDate: Date = DEFAULT_END_DATE,
+        @Query() productId?: UUID,
+        @Query() sellerId?: UUID,
+        @Query() locationId?: UUID,
+        @Query() status?: SaleStatus,
+        @Query() paymentMethod?: PaymentMethod,
+    ): Promise<Readable> {
+        // Sanity check. Don't allow startDate to be greater than endDate
+        if (startDate > endDate) {
+            return Promise.reject(new BadRequestError({
+                message: "Bad dates.",
+                code: AppErrorCode.REQ_FORMAT,
+                fields: {
+                    "startDate": {
+                        message: "startDate can't be greater than endDate",
+                        value: startDate
+                    },
+                    "endDate": {
+                        message: "endDate can't be less than startDate",
+                        value: endDate
+                    }
+                }
+            }));
+        }
+
+        this.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+        this.setHeader("Content-Disposition", `attachment; filename="sales.${format}"`);
+
+        const stream = exportSales({startDate, endDate, productId, sellerId, locationId, status, paymentMethod}, format);
+
+        // The stream is piped into the response, which doesn't handle its errors. The response has already
+        // started by then, so an export that fails can only be aborted. And if the client goes away, stop exporting.
+        const response = request.res!!;
+        stream.on("error", err => {
+            appLogger.error(err);
+            response.destroy();
+        });
+        response.on("close", () => stream.destroy());
+
+        return stream;
+    }
+
+    /**
+     * Lists the items sold below their catalog price because of a price override, with the reason
+     * and the manager who approved it, if the override was beyond the threshold.
+     * The list is ordered by date of sale (ascending).
+     * 
+     * @summary Retrieve the price overrides.
+     * 
+     * @param limit Limit the number of overrides returned. Minimum 1.
+     * @isInt limit Must be an integer >= 1.
+     * @minimum limit 1 minimum 1.
+     * 
+     * @param page Used for pagination. When limit is used, chunks of overrides will be skipped.
+     * @isInt page Must be an integer >= 0.
+     * @minimum page 0 minimum 0.
+     * 
+     * @param startDate Sales after this date (inclusive). Use UTC format, time is optional.
+     * @isDate startDate Must be a date like 'YYYY-MM-DD'.
+     * 
+     * @param endDate Sales before this date (inclusive). Use UTC format, time is optional.
+     * @isDate endDate Must be a date like 'YYYY-MM-DD'.
+     * 
+     * @param sellerId Sales by this seller.
+     * 
+     * @param locationId Sales at this location.
+     * 
+     * @param reason Overrides with this reason.
+     */
+    @Get("overrides")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned the price overrides.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getPriceOverrides(
+        @Query() limit: number = 10,
+        @Query() page: number = 0,
+        @Query() startDate: Date = DEFAULT_START_DATE,
+        @Query() endDate: Date = DEFAULT_END_DATE,
+        @Query() sellerId?: UUID,
+        @Query() locationId?: UUID,
+        @Query() reason?: PriceOverrideReason,
+    ): Promise<GetPriceOverridesResult> {
+        // Sanity check. Don't allow startDate to be greater than endDate
+        if (startDate > endDate) {
+            return Promise.reject(new BadRequestError({
+                message: "Bad dates.",
+                code: AppErrorCode.REQ_FORMAT,
+                fields: {
+                    "startDate": {
+                        message: "startDate can't be greater than endDate",
+                        value: startDate
+                    },
+                    "endDate": {
+                        message: "endDate can't be less than startDate",
+                        value: endDate
+                    }
+                }
+            }));
+        }
+
+        const result = await SaleItem.findAll({
+            limit: limit,
+            offset: page * limit,
             where: {
-                updatedAt: {
-                    [Op.gte]: startDate,
-                    [Op.lte]: endDate
-                },
-                ...(sellerId) ? {sellerId: sellerId} : {},
-                ...(locationId) ? {locationId: locationId} : {}
-            }, 
-            include: [
-                {
-                    association: Sale.associations.seller,
-                    attributes: ["name"],
-                },
-                {
-                    association: Sale.associations.items,
-                    attributes: ["productId", "quantity", "price", "total"]
-                },
-                {
-                    association: Sale.associations.items2,
-                    attributes: [],
-                    where: {
-                        ...(productId) ? {productId: productId} : {}
+                overridePrice: {[Op.ne]: null},
+                ...(reason) ? {overrideReason: reason} : {},
+            },
+            include: {
+                association: SaleItem.associations.sale,
+                attributes: ["saleId", "createdAt", "status", "sellerId", "locationId"],
+                where: {
+                    createdAt: {
+                        [Op.gte]: startDate,
+                        [Op.lte]: endDate
                     },
+                    ...(sellerId) ? {sellerId: sellerId} : {},
+                    ...(locationId) ? {locationId: locationId} : {},
                 },
-            ],
-            order: [["updatedAt", "asc"]],
+            },
+            order: [[SaleItem.associations.sale, "createdAt", "asc"], ["saleId", "asc"], ["productId", "asc"]],
         });
 
-        const sales = result.map(toSaleInfo);
-
         return {
             status: 200,
-            data: sales
+            data: result.map(toPriceOverrideInfo)
         };
     }
 
@@ -145,18 +491,7 @@ export class SaleController extends Controller {
         @Path() saleId: UUID,
     ): Promise<GetSalesInfoResult> {
         // Find sales
-        const result = await Sale.findByPk(saleId, {
-            include: [
-                {
-                    association: Sale.associations.items,
-                    attributes: ["productId", "quantity", "price", "total"],
-                },
-                {
-                    association: Sale.associations.seller,
-                    attributes: ["name"],
-                },
-            ],
-        });
+        const result = await getSaleByPk(saleId);
 
         if (result == null) {
             return Promise.reject(new NotFoundError({
@@ -164,7 +499,6 @@ export class SaleController extends Controller {
                 message: "Sale not found"
             }));
         }
-        console.log(result);
         return {
             status: 200,
             data: toSaleInfo(result)
@@ -173,8 +507,24 @@ export class SaleController extends Controller {
 
     /** 
      * Creates a sale with the "Completed" status.
+     * If the sale is "pending", it's created with the "Pending" status instead. A pending sale reserves the stock
+     * for a limited time, without consuming it, until it's either confirmed or released.
+     * A promo code may be applied to the sale. The discount of each item is kept alongside its list price.
+     * Bundles are sold as their components, taking each component's stock at the location. The bundle's price
+     * is split across the components, and the savings are kept as the components' discount.
+     * An item may be sold below its catalog price (e.g., a damaged item), with a reason. Overrides beyond the
+     * configured threshold need a manager's approval token, unless the seller is a manager.
+     * Warehouses don't sell. Selling outside the location's opening hours or active dates also needs
+     * a manager's approval token, unless the seller is a manager.
+     * The payments must add up to the sale's total. Only cash may exceed it, in which case change is given back.
+     * Pending sales are paid when confirmed.
+     * A customer may be attached to the sale, either by userId or by email. The sale then shows up
+     * in the customer's purchase history.
      * 
      * @summary Create a new sale.
+     * 
+     * @param idempotencyKey A unique key for this sale, chosen by the client. Retrying with the same key
+     * returns the original sale instead of creating a new one.
      */
      @Post()
      @Tags(TAG_SALES)
@@ -188,120 +538,1323 @@ export class SaleController extends Controller {
      public async createSale(
         @Request() request: AuthRequest,
         @Body() body: CreateSaleParams,
+        @Header("Idempotency-Key") idempotencyKey?: string,
      ): Promise<CreateSaleResult> {
-        const { list, locationId } = body;
-        const productIds: UUID[] = list.map(item => item.productId);
         const sellerId: UUID = request.auth.userId;
-
-        // Sanity check. Don't allow duplicate values
-        if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
-            return Promise.reject(new BadRequestError({
-                code: AppErrorCode.REQ_FORMAT,
-                message: "Repeated productId not allowed."
-            }));
-        }
-        
-        // Begin a Repeatable Read transaction. Big wall of business logic incoming!
-        const result = await Stock.sequelize!!.transaction(
+        return await runIdempotent(
+            {key: idempotencyKey, userId: sellerId, route: "POST /sales", payload: body},
             {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
-            async(transaction) => {
-                // Find all products on the list and at this location.
+            (transaction) => processSale(sellerId, body, {}, transaction)
+        );
+    }
+
+    /**
+     * Uploads sales recorded offline. Each sale has an identifier generated by the device and the date it
+     * was recorded. The sales are applied in the order they were recorded, each on its own.
+     * Sales recorded in the future, or before the configured offline window, are rejected.
+     * Each sale is checked at the date it was recorded (e.g., the location's opening hours), and so are
+     * the manager's approvals, which must have been valid at that date.
+     * Sales that were already uploaded are reported as duplicates, instead of being created again.
+     * By default, sales without enough stock are rejected. With the "override" policy, they're accepted,
+     * the stock goes negative and the sale is flagged for review by a manager.
+     * 
+     * @summary Upload a batch of sales recorded offline.
+     */
+    @Post("batch")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully processed the batch. Check each sale's result.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async syncSales(
+        @Request() request: AuthRequest,
+        @Body() body: SyncSalesParams,
+    ): Promise<SyncSalesResult> {
+        const { sales, policy } = body;
+        const sellerId: UUID = request.auth.userId;
+        const clientIds: string[] = sales.map(sale => sale.clientId);
+
+        // Sanity check. Don't allow duplicate values
+        if (clientIds.some((id, idx) => clientIds.lastIndexOf(id) != idx)) {
+            return Promise.reject(new BadRequestError({
+                code: AppErrorCode.REQ_FORMAT,
+                message: "Repeated clientId not allowed."
+            }));
+        }
+
+        // Apply the sales by the date they were recorded (the sort is stable).
+        const ordered = [...sales].sort((a, b) => a.createdAt.valueOf() - b.createdAt.valueOf());
+        const results: SyncSaleResult[] = [];
+
+        for (const offlineSale of ordered) {
+            const { clientId, createdAt, ...sale } = offlineSale;
+
+            const existing = await Sale.findOne({where: {sellerId, clientId}, attributes: ["saleId"]});
+            if (existing != null) {
+                results.push({clientId, result: SyncResult.DUPLICATE, saleId: existing.saleId});
+                continue;
+            }
+
+            try {
+                const created = await processSale(sellerId, sale, {
+                    clientId: clientId,
+                    createdAt: createdAt,
+                    allowNegativeStock: policy == StockConflictPolicy.OVERRIDE,
+                });
+                results.push({
+                    clientId,
+                    result: SyncResult.CREATED,
+                    saleId: created.data.saleId,
+                    stockOverride: created.data.stockOverride,
+                });
+            } catch (err) {
+                // Uploaded concurrently
+                if (err instanceof UniqueConstraintError) {
+                    results.push({clientId, result: SyncResult.DUPLICATE});
+                    continue;
+                }
+                if (err instanceof AppError) {
+                    results.push({clientId, result: SyncResult.REJECTED, reason: err.message});
+                    continue;
+                }
+                throw err;
+            }
+        }
+
+        return {
+            status: 200,
+            data: results
+        };
+    }
+
+    /**
+     * Completes a pending sale and consumes the reserved stock.
+     * The reservation must not have expired. The payments must add up to the sale's total.
+     * Only the sale's seller, or a manager, may confirm it.
+     * 
+     * @summary Confirm a pending sale.
+     * 
+     * @param saleId The sale's unique identifier.
+     */
+    @Post("{saleId}/confirm")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully confirmed the sale.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Sale not found.")
+    @Response<ConflitErrorResponse>(409, "Can't confirm sale.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async confirmSale(
+        @Request() request: AuthRequest,
+        @Path() saleId: UUID,
+        @Body() body: ConfirmSaleParams,
+    ): Promise<ConfirmSaleResult> {
+        const { payments } = body;
+
+        const result = await retryTransaction(
+            Sale.sequelize!!,
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            async (transaction) => {
+                const sale = await getSaleByPk(saleId, transaction);
+
+                if (sale == null) {
+                    return new NotFoundError({
+                        code: AppErrorCode.NOT_FOUND,
+                        message: "Sale not found."
+                    });
+                }
+
+                if (!canHandleSale(request, sale)) {
+                    return notSellerError(saleId);
+                }
+
+                if (sale.status != SaleStatus.PENDING) {
+                    return new ConflitError({
+                        message: "Can't confirm sale. Only pending sales can be confirmed.",
+                        fields: {
+                            "saleId": {
+                                message: `This sale's status is '${sale.status}'.`,
+                                value: saleId
+                            }
+                        }
+                    });
+                }
+
+                if (hasDateExpired(sale.expiresAt)) {
+                    return new ConflitError({
+                        message: "Can't confirm sale. The reservation has expired.",
+                        fields: {
+                            "saleId": {
+                                message: "Reservation expired.",
+                                value: saleId
+                            }
+                        }
+                    });
+                }
+
+                // Verify if the payments add up to the total.
+                const salePayments = allocatePayments(payments, Number(sale.totalPrice));
+                if (salePayments instanceof AppError) {
+                    return salePayments;
+                }
+
+                // The stock may have been updated since the reservation.
+                const items: SaleItem[] = sale.items || [];
                 const stockResult: Stock[] = await Stock.findAll({
-                    raw: true,
-                    nest: true,
-                    where: { productId: productIds, locationId: locationId },
-                    include: {
-                        attributes: ["price"],
-                        association: Stock.associations.product
-                    },
+                    where: { productId: items.map(item => item.productId), locationId: sale.locationId },
                     transaction,
                 });
 
-                // Verify if every product exists and has enough quantity in stock.
-                const valid: boolean = list.every(item => {
-                    const stock = stockResult.find(p => p.productId == item.productId);
-                    return (stock != null && stock.quantity >= item.quantity);
+                const valid: boolean = items.every(item => {
+                    const stock = stockResult.find(s => s.productId == item.productId);
+                    return (stock != null && stock.quantity >= item.quantity);
+                });
+
+                if (!valid) {
+                    return new ConflitError({
+                        message: "Can't confirm sale. Missing stock."
+                    });
+                }
+
+                // Consume the reserved stock.
+                await addStock(
+                    items.map(item => ({productId: item.productId, locationId: sale.locationId, quantity: -item.quantity})),
+                    {type: MovementType.SALE, userId: request.auth.userId, referenceId: saleId},
+                    transaction
+                );
+
+                salePayments.forEach(payment => payment.saleId = saleId);
+                sale.payments = await SalePayment.bulkCreate(salePayments, {transaction});
+
+                sale.set({status: SaleStatus.COMPLETED, expiresAt: null});
+                await sale.save({transaction});
+                await issueInvoice(sale, items, transaction);
+                return sale;
+            }
+        );
+
+        // Bubble up the error
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+        return {
+            status: 200,
+            data: toSaleInfo(result)
+        };
+    }
+
+    /**
+     * Cancels a pending sale and releases the reserved stock.
+     * Only the sale's seller, or a manager, may release it.
+     * 
+     * @summary Release a pending sale.
+     * 
+     * @param saleId The sale's unique identifier.
+     */
+    @Post("{saleId}/release")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully released the sale.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Sale not found.")
+    @Response<ConflitErrorResponse>(409, "Can't release sale.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async releaseSale(
+        @Request() request: AuthRequest,
+        @Path() saleId: UUID,
+    ): Promise<ReleaseSaleResult> {
+        const userId: UUID = request.auth.userId;
+
+        const result = await retryTransaction(
+            Sale.sequelize!!,
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            async (transaction) => {
+                const sale = await getSaleByPk(saleId, transaction);
+
+                if (sale == null) {
+                    return new NotFoundError({
+                        code: AppErrorCode.NOT_FOUND,
+                        message: "Sale not found."
+                    });
+                }
+
+                if (!canHandleSale(request, sale)) {
+                    return notSellerError(saleId);
+                }
+
+                const released = (sale.status == SaleStatus.PENDING)
+                    ? await releaseReservation(sale, "Reservation released.", userId, transaction)
+                    : null;
+                if (released == null) {
+                    return new ConflitError({
+                        message: "Can't release sale. Only pending sales can be released.",
+                        fields: {
+                            "saleId": {
+                                message: `This sale's status is '${sale.status}'.`,
+                                value: saleId
+                            }
+                        }
+                    });
+                }
+                return released;
+            }
+        );
+
+        // Bubble up the error
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+        return {
+            status: 200,
+            data: toSaleInfo(result)
+        };
+    }
+
+    /**
+     * Only completed sales can be cancelled. The sold quantities are returned to the stock
+     * of the location where the sale took place.
+     * 
+     * @summary Cancel a sale.
+     * 
+     * @param saleId The sale's unique identifier.
+     */
+    @Post("{saleId}/cancel")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully cancelled the sale.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Sale not found.")
+    @Response<ConflitErrorResponse>(409, "Can't cancel sale.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async cancelSale(
+        @Request() request: AuthRequest,
+        @Path() saleId: UUID,
+        @Body() body: CancelSaleParams,
+    ): Promise<CancelSaleResult> {
+        const { reason } = body;
+        const managerId: UUID = request.auth.userId;
+
+        // Stock and sale status must change together.
+        const result = await retryTransaction(
+            Sale.sequelize!!,
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            async (transaction) => {
+                const sale = await getSaleByPk(saleId, transaction);
+
+                if (sale == null) {
+                    return new NotFoundError({
+                        code: AppErrorCode.NOT_FOUND,
+                        message: "Sale not found."
+                    });
+                }
+
+                if (sale.status != SaleStatus.COMPLETED) {
+                    return new ConflitError({
+                        message: "Can't cancel sale. Only completed sales can be cancelled.",
+                        fields: {
+                            "saleId": {
+                                message: `This sale's status is '${sale.status}'.`,
+                                value: saleId
+                            }
+                        }
+                    });
+                }
+
+                // Return every item, except the ones already returned, to the stock at the sale's location.
+                const items: SaleItem[] = sale.items || [];
+                const toRestock: StockQuantity[] = items
+                    .filter(item => item.quantity > item.returned)
+                    .map(item => ({productId: item.productId, locationId: sale.locationId, quantity: item.quantity - item.returned}));
+                await addStock(toRestock, {type: MovementType.CANCELLATION, userId: managerId, referenceId: saleId}, transaction);
+
+                // The promo code may be used again.
+                if (sale.promotionId != null) {
+                    await unredeemPromotion(sale.promotionId, transaction);
+                }
+
+                sale.set({
+                    status: SaleStatus.CANCELLED,
+                    cancelledById: managerId,
+                    cancelReason: reason,
+                    cancelledAt: new Date(),
+                });
+                await sale.save({transaction});
+
+                // Credit what wasn't refunded yet. Returns have their own credit notes.
+                await issueCreditNote(
+                    sale,
+                    items
+                        .filter(item => item.quantity > item.returned)
+                        .map(item => toCreditLine(item.productId, item.quantity - item.returned, item.taxRate, item.total - item.refunded)),
+                    reason,
+                    transaction
+                );
+                return sale;
+            }
+        );
+
+        // Bubble up the error
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+        return {
+            status: 200,
+            data: toSaleInfo(result)
+        };
+    }
+
+    /**
+     * Registers the return of some of the sale's items. Returned items are added to the stock of the location
+     * where the sale took place, unless another location is specified.
+     * The refunded amount is deducted from the sale's total.
+     * 
+     * @summary Return items of a sale.
+     * 
+     * @param saleId The sale's unique identifier.
+     */
+    @Post("{saleId}/returns")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(201, "Successfully returned the items.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Sale not found.")
+    @Response<ConflitErrorResponse>(409, "Can't return items.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async createSaleReturn(
+        @Request() request: AuthRequest,
+        @Path() saleId: UUID,
+        @Body() body: CreateSaleReturnParams,
+    ): Promise<CreateSaleReturnResult> {
+        const { list, reason } = body;
+        const productIds: UUID[] = list.map(item => item.productId);
+        const userId: UUID = request.auth.userId;
+
+        // Sanity check. Don't allow duplicate values
+        if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
+            return Promise.reject(new BadRequestError({
+                code: AppErrorCode.REQ_FORMAT,
+                message: "Repeated productId not allowed."
+            }));
+        }
+
+        try {
+            const result = await retryTransaction(
+                Sale.sequelize!!,
+                {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+                async (transaction) => {
+                    const sale = await getSaleByPk(saleId, transaction);
+
+                    if (sale == null) {
+                        return new NotFoundError({
+                            code: AppErrorCode.NOT_FOUND,
+                            message: "Sale not found."
+                        });
+                    }
+
+                    if (sale.status != SaleStatus.COMPLETED) {
+                        return new ConflitError({
+                            message: "Can't return items. Only completed sales can have returns.",
+                            fields: {
+                                "saleId": {
+                                    message: `This sale's status is '${sale.status}'.`,
+                                    value: saleId
+                                }
+                            }
+                        });
+                    }
+
+                    // Verify if every product was sold and wasn't returned yet.
+                    const items: SaleItem[] = sale.items || [];
+                    const invalid = list.filter(entry => {
+                        const item = items.find(i => i.productId == entry.productId);
+                        return (item == null || item.quantity - item.returned < entry.quantity);
+                    });
+
+                    if (invalid.length > 0) {
+                        return new ConflitError({
+                            message: "Can't return items. Returned quantity is greater than the sold quantity.",
+                            fields: invalid.reduce((acc: FieldErrors, entry) => {
+                                acc[entry.productId] = {
+                                    message: "Not enough items to return.",
+                                    value: entry.quantity
+                                }
+                                return acc;
+                            }, {})
+                        });
+                    }
+
+                    const locationId: UUID = body.locationId || sale.locationId;
+                    const returns: CreationAttributes<SaleReturn>[] = list.map(entry => {
+                        const item: SaleItem = items.find(i => i.productId == entry.productId)!!;
+
+                        // Refund proportionally to what was paid, so that a full return refunds the item's total.
+                        const returned = item.returned + entry.quantity;
+                        const amount = Math.round(item.total * returned / item.quantity) - item.refunded;
+                        item.returned = returned;
+                        item.refunded += amount;
+
+                        return {
+                            saleId: saleId,
+                            productId: entry.productId,
+                            locationId: locationId,
+                            userId: userId,
+                            quantity: entry.quantity,
+                            amount: amount,
+                            reason: reason,
+                        }
+                    });
+
+                    await addStock(
+                        list.map(entry => ({productId: entry.productId, locationId: locationId, quantity: entry.quantity})),
+                        {type: MovementType.RETURN, userId: userId, referenceId: saleId},
+                        transaction
+                    );
+                    await SaleReturn.bulkCreate(returns, {transaction});
+                    await Promise.all(list.map(entry => {
+                        const { returned, refunded } = items.find(i => i.productId == entry.productId)!!;
+                        return SaleItem.update(
+                            { returned, refunded },
+                            { where: { saleId: saleId, productId: entry.productId }, transaction }
+                        );
+                    }));
+
+                    // Update the sale's refunded amount.
+                    const refunded: number = returns.reduce((acc, entry) => acc + entry.amount, 0);
+                    sale.refundedPrice = Number(sale.refundedPrice) + refunded;
+                    await sale.save({transaction});
+
+                    await issueCreditNote(
+                        sale,
+                        returns.map(entry => {
+                            const item: SaleItem = items.find(i => i.productId == entry.productId)!!;
+                            return toCreditLine(entry.productId, entry.quantity, item.taxRate, entry.amount);
+                        }),
+                        reason,
+                        transaction
+                    );
+                    return sale;
+                }
+            );
+
+            // Bubble up the error
+            if (result instanceof AppError) {
+                return Promise.reject(result);
+            }
+
+            return {
+                status: 201,
+                data: toSaleInfo(result)
+            };
+
+        } catch (err) {
+            // Error during restock
+            if (err instanceof ForeignKeyConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't return items. The location doesn't exist.",
+                    fields: {
+                        "body.locationId": {
+                            message: "This locationId doesn't exist.",
+                            value: body.locationId
+                        }
+                    }
+                }));
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Marks a sale accepted without enough stock (see "POST /sales/batch") as reviewed.
+     * 
+     * @summary Review a sale's stock override.
+     * 
+     * @param saleId The sale's unique identifier.
+     */
+    @Post("{saleId}/review")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully reviewed the sale.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Sale not found.")
+    @Response<ConflitErrorResponse>(409, "The sale doesn't need a review.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async reviewSale(
+        @Request() request: AuthRequest,
+        @Path() saleId: UUID,
+    ): Promise<ReviewSaleResult> {
+        const result = await Sale.sequelize!!.transaction(
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            async (transaction) => {
+                const sale = await getSaleByPk(saleId, transaction);
+                if (sale == null) {
+                    return new NotFoundError({
+                        code: AppErrorCode.NOT_FOUND,
+                        message: "Sale not found"
+                    });
+                }
+
+                if (!sale.stockOverride || sale.reviewedAt != null) {
+                    return new ConflitError({
+                        message: "Can't review sale.",
+                        fields: {
+                            "saleId": {
+                                message: "This sale doesn't need a review.",
+                                value: saleId
+                            }
+                        }
+                    });
+                }
+
+                sale.set({reviewedById: request.auth.userId, reviewedAt: new Date()});
+                return await sale.save({transaction});
+            }
+        );
+
+        // Bubble up the error
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+        return {
+            status: 200,
+            data: toSaleInfo(result)
+        };
+    }
+
+    /**
+     * The returned list will be ordered by date (asceding).
+     * 
+     * @summary Retrieve the list of returns of a sale.
+     * 
+     * @param saleId The sale's unique identifier.
+     */
+    @Get("{saleId}/returns")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned the list of returns.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getSaleReturns(
+        @Path() saleId: UUID,
+    ): Promise<GetSaleReturnsResult> {
+        const result = await SaleReturn.findAll({
+            where: { saleId: saleId },
+            order: [["createdAt", "asc"]],
+        });
+
+        return {
+            status: 200,
+            data: result.map(toSaleReturnInfo)
+        };
+    }
+
+    /**
+     * The receipt's format is chosen from the request's "Accept" header: plain text (for thermal printers),
+     * HTML or PDF. Defaults to plain text.
+     * Pending sales have no receipt, since they haven't been paid yet.
+     * 
+     * @summary Retrieve a sale's receipt.
+     * 
+     * @param saleId The sale's unique identifier.
+     */
+    @Get("{saleId}/receipt")
+    @Tags(TAG_SALES)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the receipt.", [ReceiptFormat.TEXT, ReceiptFormat.HTML, ReceiptFormat.PDF])
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Sale not found.")
+    @Response<ConflitErrorResponse>(409, "The sale is pending.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getSaleReceipt(
+        @Request() request: AuthRequest,
+        @Path() saleId: UUID,
+    ): Promise<Readable> {
+        const result = await Sale.findByPk(saleId, {
+            include: [
+                {
+                    association: Sale.associations.items,
+                    attributes: SALE_ITEM_ATTRIBUTES,
+                    include: [{
+                        association: SaleItem.associations.product,
+                        attributes: ["name"],
+                    }]
+                },
+                {
+                    association: Sale.associations.seller,
+                    attributes: ["name"],
+                },
+                {
+                    association: Sale.associations.location,
+                    attributes: ["address"],
+                },
+                {
+                    association: Sale.associations.payments,
+                    attributes: SALE_PAYMENT_ATTRIBUTES,
+                },
+                {
+                    association: Sale.associations.promotion,
+                    attributes: ["code"],
+                },
+                {
+                    association: Sale.associations.invoices,
+                    attributes: ["type", "documentNumber", "atcud", "customerNif"],
+                },
+            ],
+        });
+
+        if (result == null) {
+            return Promise.reject(new NotFoundError({
+                code: AppErrorCode.NOT_FOUND,
+                message: "Sale not found"
+            }));
+        }
+
+        if (result.status == SaleStatus.PENDING) {
+            return Promise.reject(new ConflitError({
+                message: "Can't print the receipt of a pending sale.",
+                fields: {
+                    "saleId": {
+                        message: "This sale hasn't been confirmed.",
+                        value: saleId
+                    }
+                }
+            }));
+        }
+
+        const format = (request.accepts(Object.values(ReceiptFormat)) || ReceiptFormat.TEXT) as ReceiptFormat;
+        if (format == ReceiptFormat.PDF) {
+            this.setHeader("Content-Type", format);
+            this.setHeader("Content-Disposition", `inline; filename="receipt-${saleId}.pdf"`);
+        } else {
+            this.setHeader("Content-Type", `${format}; charset=utf-8`);
+        }
+
+        return renderReceipt(result, format);
+    }
+}
+
+// ------------------------------ Helper Functions ------------------------------ // 
+
+/**
+ * Receives a Sale's primary key and fetches that sale from the database, alongside its items and seller.
+ * 
+ * @param saleId The sale's primary key.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the Sale or null or rejected with an Error.
+ */
+async function getSaleByPk(saleId: UUID, transaction?: Transaction): Promise<Sale | null> {
+    return await Sale.findByPk(saleId, {
+        include: [
+            {
+                association: Sale.associations.items,
+                attributes: SALE_ITEM_ATTRIBUTES,
+            },
+            {
+                association: Sale.associations.seller,
+                attributes: ["name"],
+            },
+            {
+                association: Sale.associations.payments,
+                attributes: SALE_PAYMENT_ATTRIBUTES,
+            },
+            {
+                association: Sale.associations.bundles,
+                attributes: SALE_BUNDLE_ATTRIBUTES,
+            },
+        ],
+        transaction,
+    });
+}
+
+/**
+ * Finds the sales matching the filters, as described in "GET /sales".
+ * 
+ * @param filters The search filters.
+ * @param limit The maximum number of sales.
+ * @param page The page, with "limit" sales each.
+ * @returns A promise to be either resolved with the sales, ordered by date, or rejected with an Error.
+ */
+async function searchSales(filters: SalesFilters, limit: number, page: number): Promise<SaleInfo[]> {
+    const { startDate, endDate, productId, sellerId, locationId, status, paymentMethod, needsReview } = filters;
+    const result = await Sale.findAll({
+        limit: limit, 
+        offset: page * limit, 
+        where: {
+            updatedAt: {
+                [Op.gte]: startDate,
+                [Op.lte]: endDate
+            },
+            ...(sellerId) ? {sellerId: sellerId} : {},
+            ...(locationId) ? {locationId: locationId} : {},
+            ...(status) ? {status: status} : {},
+            ...(paymentMethod) ? paidWithWhere(paymentMethod) : {},
+            ...(needsReview) ? {stockOverride: true, reviewedAt: null} : {}
+        }, 
+        include: [
+            {
+                association: Sale.associations.seller,
+                attributes: ["name"],
+            },
+            {
+                association: Sale.associations.items,
+                attributes: SALE_ITEM_ATTRIBUTES
+            },
+            {
+                association: Sale.associations.items2,
+                attributes: [],
+                where: {
+                    ...(productId) ? {productId: productId} : {}
+                },
+            },
+            {
+                association: Sale.associations.payments,
+                attributes: SALE_PAYMENT_ATTRIBUTES,
+            },
+            {
+                association: Sale.associations.bundles,
+                attributes: SALE_BUNDLE_ATTRIBUTES,
+            },
+        ],
+        order: [["updatedAt", "asc"]],
+    });
+
+    return result.map(toSaleInfo);
+}
+
+/**
+ * Creates a sale, as described in "POST /sales".
+ * 
+ * @param sellerId The seller's unique identifier.
+ * @param body The sale.
+ * @param options Options for sales recorded offline.
+ * @param parent The transaction to create the sale in. If missing, the sale starts its own.
+ * @returns A promise to be either resolved with the created sale or rejected with an Error.
+ */
+async function processSale(
+    sellerId: UUID,
+    body: CreateSaleParams,
+    options: OfflineSaleOptions = {},
+    parent?: Transaction
+): Promise<CreateSaleResult> {
+    const { list, locationId, pending, promoCode, payments, customerId, customerEmail, customerNif, overrideApproval, hoursApproval } = body;
+    const productIds: UUID[] = list.map(item => item.productId);
+
+    // Sanity check. Don't allow duplicate values
+    if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Repeated productId not allowed."
+        }));
+    }
+
+    // Sanity check. The customer is identified by only one of the fields.
+    if (customerId != null && customerEmail != null) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Use either customerId or customerEmail.",
+            fields: {
+                "body.customerEmail": {
+                    message: "customerEmail not allowed with customerId.",
+                    value: customerEmail
+                }
+            }
+        }));
+    }
+
+    // Sanity check. The tax number's check digit must match.
+    if (customerNif != null && !isValidNif(customerNif)) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Invalid tax number.",
+            fields: {
+                "body.customerNif": {
+                    message: "Invalid NIF check digit.",
+                    value: customerNif
+                }
+            }
+        }));
+    }
+
+    // Sanity check. Price overrides must have a reason.
+    const noReason = list.find(item => item.price != null && item.overrideReason == null);
+    if (noReason != null) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Price overrides must have a reason.",
+            fields: {
+                "body.list.overrideReason": {
+                    message: "overrideReason is required with price.",
+                    value: noReason.productId
+                }
+            }
+        }));
+    }
+
+    // Sanity check. Offline dates come from the device. They're kept on the sale and its invoice,
+    // and decide the checks below (e.g., sales recorded before the location was archived).
+    if (options.createdAt != null && !isWithinOfflineWindow(options.createdAt)) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: `The sale must be recorded in the last ${OFFLINE_WINDOW} seconds, and not in the future.`,
+            fields: {
+                "body.createdAt": {
+                    message: "Outside the offline window.",
+                    value: options.createdAt
+                }
+            }
+        }));
+    }
+
+    // Sanity check. Completed sales must be paid, pending sales are paid later.
+    if (pending && payments != null) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Pending sales are paid when confirmed.",
+            fields: {
+                "body.payments": {
+                    message: "payments not allowed for pending sales.",
+                    value: payments
+                }
+            }
+        }));
+    }
+    
+    // Begin a Repeatable Read transaction. Big wall of business logic incoming!
+    const result = await retryTransaction(
+        Stock.sequelize!!,
+        {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ, transaction: parent},
+        async(transaction) => {
+            // Archived locations don't sell, except for offline sales recorded before the location was archived.
+            // Offline dates are bounded by the offline window, so archived locations stop selling once it passes.
+            const location = await Location.findByPk(locationId, {transaction});
+            if (location?.archivedAt != null && !(options.createdAt != null && options.createdAt < location.archivedAt)) {
+                return new ConflitError({
+                    message: "Can't create sale. The location is archived.",
+                    fields: {
+                        "body.locationId": {
+                            message: "This location is archived.",
+                            value: locationId
+                        }
+                    }
+                });
+            }
+
+            // Warehouses only hold stock.
+            if (location?.type == LocationType.WAREHOUSE) {
+                return new ConflitError({
+                    message: "Can't create sale. The location is a warehouse.",
+                    fields: {
+                        "body.locationId": {
+                            message: "Warehouses don't sell.",
+                            value: locationId
+                        }
+                    }
                 });
-            
-                // Stock invalid. End transaction.
-                if (!valid) {
+            }
+
+            // Bundles are sold as their components.
+            const bundles = await findBundles(productIds, transaction);
+            const components = expandBundles(list, bundles);
+            const componentIds: UUID[] = components.map(item => item.productId);
+
+            // Find all products on the list and at this location.
+            const stockResult: Stock[] = await Stock.findAll({
+                raw: true,
+                nest: true,
+                where: { productId: componentIds, locationId: locationId },
+                include: {
+                    attributes: ["price", "category", "taxRate"],
+                    association: Stock.associations.product
+                },
+                transaction,
+            });
+
+            // Stock held by other pending sales isn't available.
+            const reserved: ReservedStock[] = await getReservedStock(componentIds, locationId, transaction);
+
+            // Verify if every product exists and has enough quantity in stock.
+            const exists: boolean = components.every(item => stockResult.some(p => p.productId == item.productId));
+            const enough: boolean = exists && components.every(item => {
+                const stock = stockResult.find(p => p.productId == item.productId)!!;
+                const held = reserved.find(r => r.productId == item.productId)?.quantity || 0;
+                return (stock.quantity - held >= item.quantity);
+            });
+        
+            // Stock invalid. End transaction. Offline sales may override missing quantities.
+            if (!exists || (!enough && !options.allowNegativeStock)) {
+                return new ConflitError({
+                    message: "Can't create sale. Missing stock."
+                });
+            }
+
+            // Get seller info
+            const seller = await User.findByPk(sellerId, {attributes: ["name", "role"], transaction});
+            if (seller == null) {
+                return new AppError({
+                    code: AppErrorCode.NOT_FOUND,
+                    message: "User not found.",
+                    fields: {
+                        "sellerId": {
+                            message: "sellerId doesn't exist.",
+                            value: sellerId
+                        }
+                    }
+                })
+            };
+
+            // Selling while the location is closed needs a manager's approval. Managers approve their own sales.
+            // Offline sales are checked at the date they were recorded, which was bounded by the offline window above.
+            const soldAt: Date = options.createdAt || new Date();
+            let hoursApprovedById: UUID | null = null;
+            if (location != null && !isOpen(location, soldAt)) {
+                hoursApprovedById = (hasRolePrivileges(seller.role, Role.MANAGER)) ? sellerId :
+                    (hoursApproval != null) ?
+                    await verifyApproval(hoursApproval, sellerId, ApprovalScope.OUTSIDE_HOURS, options.createdAt) : null;
+
+                if (hoursApprovedById == null) {
+                    return new ForbiddenError({
+                        code: AppErrorCode.PRIVILEGE,
+                        message: "The location is closed. Sales outside its opening hours or active dates need a manager's approval.",
+                        fields: {
+                            "body.hoursApproval": {
+                                message: "Missing, invalid or expired approval.",
+                                value: hoursApproval
+                            }
+                        }
+                    });
+                }
+            }
+
+            // Get customer info
+            const customer = await findCustomer(customerId, customerEmail, transaction);
+            if (customer instanceof AppError) {
+                return customer;
+            }
+
+            // Create the list of products.
+            const items: CreationAttributes<SaleItem>[] = components.map(item => {
+                const stock: Stock = stockResult.find(p => p.productId == item.productId)!!;
+                const price: number = stock.product!!.price;
+
+                return {
+                    saleId: "",                     // Must be updated later or the insert will fail!
+                    productId: item.productId,
+                    quantity: item.quantity,
+                    price: price,
+                    subtotal: item.quantity * price,
+                    discount: 0,
+                    total: item.quantity * price,
+                    taxRate: getTaxRate(stock.product!!),
+                    net: 0,                         // The VAT is split after the discounts.
+                    tax: 0,
+                }
+            });
+
+            // The bundles' prices are split across their components as discounts.
+            const saleBundles: CreationAttributes<SaleBundle>[] = bundles.map(bundle => {
+                const quantity = list.find(item => item.productId == bundle.productId)!!.quantity;
+                const getPrice = (productId: UUID) => stockResult.find(p => p.productId == productId)!!.product!!.price;
+                for (const { productId, discount } of calculateBundleDiscounts(bundle, quantity, getPrice)) {
+                    const item = items.find(item => item.productId == productId)!!;
+                    item.discount = (item.discount || 0) + discount;
+                    item.total -= discount;
+                }
+                return {saleId: "", productId: bundle.productId, quantity: quantity, price: bundle.price};
+            });
+
+            // Apply the price overrides. Overrides beyond the threshold need a manager's approval.
+            const overridden: CreationAttributes<SaleItem>[] = [];
+            for (const override of list.filter(item => item.price != null)) {
+                // Bundles aren't items, and items with units from a bundle are sold at the bundle's price.
+                const item = items.find(item => item.productId == override.productId);
+                if (item == null || item.quantity != override.quantity) {
                     return new ConflitError({
-                        message: "Can't create sale. Missing stock."
+                        message: "Can't override the price of bundles or of products in a bundle.",
+                        fields: {
+                            "body.list.price": {
+                                message: "Bundles are sold at the bundle's price.",
+                                value: override.productId
+                            }
+                        }
                     });
                 }
 
-                // Get seller info
-                const seller = await User.findByPk(sellerId, {attributes: ["name"], transaction});
-                if (seller == null) {
-                    return new AppError({
-                        code: AppErrorCode.NOT_FOUND,
-                        message: "User not found.",
+                const catalogPrice = item.price;
+                const overridePrice = override.price!!;
+                if (overridePrice > catalogPrice) {
+                    return new BadRequestError({
+                        code: AppErrorCode.REQ_FORMAT,
+                        message: "Price overrides can't exceed the catalog price.",
                         fields: {
-                            "sellerId": {
-                                message: "sellerId doesn't exist.",
-                                value: sellerId
+                            "body.list.price": {
+                                message: `The catalog price is ${catalogPrice}.`,
+                                value: overridePrice
                             }
                         }
-                    })
-                };
-
-                // Create the list of products.
-                const items: InferAttributes<SaleItem>[] = list.map(item => {
-                    const stock: Stock = stockResult.find(p => p.productId == item.productId)!!;
-                    const price: number = stock.product!!.price;
-
-                    // Update stock here and update it all at once.
-                    stock.quantity -= item.quantity;
-                    
-                    return {
-                        saleId: "",                     // Must be updated later or the insert will fail!
-                        productId: item.productId,
-                        quantity: item.quantity,
-                        price: price,
-                        total: item.quantity * price
-                    }
+                    });
+                }
+
+                const discount = (catalogPrice - overridePrice) * item.quantity;
+                item.discount = (item.discount || 0) + discount;
+                item.total -= discount;
+                item.overridePrice = overridePrice;
+                item.overrideReason = override.overrideReason;
+
+                if ((catalogPrice - overridePrice) * 100 > catalogPrice * PRICE_OVERRIDE_THRESHOLD) {
+                    overridden.push(item);
+                }
+            }
+
+            if (overridden.length > 0) {
+                // Managers approve their own overrides.
+                const approverId = (hasRolePrivileges(seller.role, Role.MANAGER)) ? sellerId :
+                    (overrideApproval != null) ?
+                    await verifyApproval(overrideApproval, sellerId, ApprovalScope.PRICE_OVERRIDE, options.createdAt) : null;
+
+                if (approverId == null) {
+                    return new ForbiddenError({
+                        code: AppErrorCode.PRIVILEGE,
+                        message: `Price overrides beyond ${PRICE_OVERRIDE_THRESHOLD}% need a manager's approval.`,
+                        fields: {
+                            "body.overrideApproval": {
+                                message: "Missing, invalid or expired approval.",
+                                value: overrideApproval
+                            }
+                        }
+                    });
+                }
+                overridden.forEach(item => item.overrideApprovedById = approverId);
+            }
+
+            // Apply the promo code, if it's valid at the date of the sale.
+            let promotion: Promotion | null = null;
+            if (promoCode != null) {
+                const found = await findValidPromotion(promoCode, transaction, soldAt);
+                if (found instanceof AppError) {
+                    return found;
+                }
+                promotion = found;
+
+                const discounts = calculateDiscounts(found, items.map(item => ({
+                    productId: item.productId,
+                    category: stockResult.find(p => p.productId == item.productId)!!.product!!.category,
+                    subtotal: item.total,
+                })));
+                if (discounts instanceof AppError) {
+                    return discounts;
+                }
+
+                items.forEach((item, idx) => {
+                    item.discount = (item.discount || 0) + discounts[idx];
+                    item.total -= discounts[idx];
                 });
+            }
 
-                // Create a new sale.
-                const totalPrice: number = items.reduce((acc, item) => acc + item.total, 0);
-                const sale: Sale = await Sale.create(
-                    {
-                        status: SaleStatus.COMPLETED,
-                        sellerId: sellerId,
-                        locationId: locationId,
-                        totalPrice: totalPrice,
-                    },
-                    { transaction }
-                );
+            // Split the VAT of each item's total.
+            items.forEach(item => {
+                const { net, tax } = splitTax(item.total, item.taxRate);
+                item.net = net;
+                item.tax = tax;
+            });
 
-                // Update saleId and save the list
-                const saleId = sale.saleId;
-                items.forEach(item => item.saleId = saleId);
-                const saleItems = await SaleItem.bulkCreate(items, {transaction});
-
-                // Update stock
-                await Stock.bulkCreate(stockResult, {transaction, updateOnDuplicate: ["quantity"]});
-                
-                // Append associations
-                sale.items = saleItems;
-                sale.seller = seller;
-                return sale;
+            // Create a new sale.
+            const subtotalPrice: number = items.reduce((acc, item) => acc + item.subtotal, 0);
+            const totalPrice: number = items.reduce((acc, item) => acc + item.total, 0);
+
+            // Verify if the payments add up to the total.
+            const salePayments = (pending) ? [] : allocatePayments(payments || [], totalPrice);
+            if (salePayments instanceof AppError) {
+                return salePayments;
             }
-        );
 
-        // Bubble up the error
-        if (result instanceof AppError) {
-            return Promise.reject(result);
+            // Register the promo code's use last, as returning an error still commits the transaction.
+            if (promotion != null) {
+                const limitReached = await redeemPromotion(promotion, transaction);
+                if (limitReached != null) {
+                    return limitReached;
+                }
+            }
+
+            const sale: Sale = await Sale.create(
+                {
+                    status: (pending) ? SaleStatus.PENDING : SaleStatus.COMPLETED,
+                    sellerId: sellerId,
+                    customerId: customer?.userId || null,
+                    locationId: locationId,
+                    promotionId: promotion?.promotionId || null,
+                    subtotalPrice: subtotalPrice,
+                    discount: subtotalPrice - totalPrice,
+                    totalPrice: totalPrice,
+                    expiresAt: (pending) ? getReservationExpiresDate() : null,
+                    clientId: options.clientId || null,
+                    stockOverride: !enough,
+                    hoursApprovedById: hoursApprovedById,
+                    customerNif: customerNif || null,
+                    ...(options.createdAt) ? {createdAt: options.createdAt} : {},
+                },
+                { transaction }
+            );
+
+            // Update saleId and save the list
+            const saleId = sale.saleId;
+            items.forEach(item => item.saleId = saleId);
+            const saleItems = await SaleItem.bulkCreate(items, {transaction});
+            salePayments.forEach(payment => payment.saleId = saleId);
+            sale.payments = await SalePayment.bulkCreate(salePayments, {transaction});
+            saleBundles.forEach(bundle => bundle.saleId = saleId);
+            sale.bundles = await SaleBundle.bulkCreate(saleBundles, {transaction});
+
+            // Update stock and issue the invoice. Pending sales only reserve the stock.
+            if (!pending) {
+                await addStock(
+                    components.map(item => ({productId: item.productId, locationId: locationId, quantity: -item.quantity})),
+                    {type: MovementType.SALE, userId: sellerId, referenceId: saleId},
+                    transaction
+                );
+                await issueInvoice(sale, saleItems, transaction);
+            }
+            
+            // Append associations
+            sale.items = saleItems;
+            sale.seller = seller;
+            return sale;
         }
+    );
 
-        return {
-            status: 201,
-            data: toSaleInfo(result)
-        };
+    // Bubble up the error
+    if (result instanceof AppError) {
+        return Promise.reject(result);
     }
+
+    return {
+        status: 201,
+        data: toSaleInfo(result)
+    };
 }
 
-// ------------------------------ Helper Functions ------------------------------ // 
+/**
+ * @param request The request.
+ * @param sale The sale.
+ * @returns True if the user is the sale's seller or a manager.
+ */
+function canHandleSale(request: AuthRequest, sale: Sale): boolean {
+    return sale.sellerId == request.auth.userId || hasRolePrivileges(request.auth.role, Role.MANAGER);
+}
+
+/**
+ * @param saleId The sale's unique identifier.
+ * @returns A ForbiddenError for users other than the sale's seller.
+ */
+function notSellerError(saleId: UUID): ForbiddenError {
+    return new ForbiddenError({
+        code: AppErrorCode.PRIVILEGE,
+        message: "Only the sale's seller, or a manager, can handle this sale.",
+        fields: {
+            "saleId": {
+                message: "This sale belongs to another seller.",
+                value: saleId
+            }
+        }
+    });
+}
+
+/**
+ * @param createdAt When an offline sale was recorded, according to the device.
+ * @returns True if the date isn't in the future nor older than the offline window.
+ */
+function isWithinOfflineWindow(createdAt: Date): boolean {
+    const now = Date.now();
+    return createdAt.getTime() <= now + CLOCK_SKEW * 1000 && createdAt.getTime() >= now - OFFLINE_WINDOW * 1000;
+}
+
+/**
+ * Fetches the customer of a sale, identified either by userId or by email.
+ * 
+ * @param customerId The customer's unique identifier.
+ * @param customerEmail The customer's email.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the customer, null if no customer was given, or a NotFoundError.
+ */
+async function findCustomer(
+    customerId: UUID | undefined,
+    customerEmail: Email | undefined,
+    transaction: Transaction
+): Promise<User | null | NotFoundError> {
+    if (customerId == null && customerEmail == null) {
+        return null;
+    }
+
+    const customer = await User.findOne({
+        attributes: ["userId"],
+        where: (customerId != null) ? {userId: customerId} : {email: customerEmail!!},
+        transaction,
+    });
+
+    if (customer == null) {
+        const field = (customerId != null) ? "body.customerId" : "body.customerEmail";
+        return new NotFoundError({
+            code: AppErrorCode.NOT_FOUND,
+            message: "Customer not found.",
+            fields: {
+                [field]: {
+                    message: "There's no user with this identifier.",
+                    value: customerId || customerEmail
+                }
+            }
+        });
+    }
+    return customer;
+}
+
+/**
+ * Fetches the sales of a customer, most recent first.
+ * 
+ * @param customerId The customer's unique identifier.
+ * @param limit Maximum number of sales.
+ * @param page Number of chunks of sales to skip.
+ * @returns A promise to be either resolved with the sales or rejected with an Error.
+ */
+export async function getCustomerSales(customerId: UUID, limit: number, page: number): Promise<Sale[]> {
+    return await Sale.findAll({
+        limit: limit,
+        offset: page * limit,
+        where: { customerId: customerId },
+        include: [
+            {
+                association: Sale.associations.seller,
+                attributes: ["name"],
+            },
+            {
+                association: Sale.associations.items,
+                attributes: SALE_ITEM_ATTRIBUTES
+            },
+            {
+                association: Sale.associations.payments,
+                attributes: SALE_PAYMENT_ATTRIBUTES,
+            },
+            {
+                association: Sale.associations.bundles,
+                attributes: SALE_BUNDLE_ATTRIBUTES,
+            },
+        ],
+        order: [["createdAt", "desc"]],
+    });
+}
 
 /**
  * Takes a Sale object and formats it to a SaleInfo object.
@@ -309,40 +1862,237 @@ export class SaleController extends Controller {
  * @param sale The Sale object.
  * @returns The sale formatted as a SaleInfo object.
  */
-function toSaleInfo(sale: Sale): SaleInfo {
+export function toSaleInfo(sale: Sale): SaleInfo {
     const items: SaleItemInfo[] = sale.items?.map(item => ({
         productId: item.productId,
         quantity: item.quantity,
         price: item.price,
+        subtotal: item.subtotal,
+        discount: item.discount,
         total: item.total,
+        taxRate: item.taxRate,
+        net: item.net,
+        tax: item.tax,
+        returned: item.returned,
+        refunded: item.refunded,
+        netTotal: item.total - item.refunded,
+        overridePrice: item.overridePrice ?? undefined,
+        overrideReason: item.overrideReason || undefined,
+        overrideApprovedById: item.overrideApprovedById || undefined,
+    })) || [];
+
+    const payments: SalePaymentInfo[] = sale.payments?.map(payment => ({
+        method: payment.method,
+        amount: payment.amount,
+        tendered: payment.tendered,
+        change: payment.change,
+    })) || [];
+
+    const bundles: SaleBundleInfo[] = sale.bundles?.map(bundle => ({
+        productId: bundle.productId,
+        quantity: bundle.quantity,
+        price: bundle.price,
     })) || [];
 
     return {
         saleId: sale.saleId,
-        customerId: sale.customerId,
+        customerId: sale.customerId || undefined,
         sellerId: sale.sellerId,
         sellerName: sale.seller!!.name,
         locationId: sale.locationId,
         status: sale.status,
+        promotionId: sale.promotionId || undefined,
         createdAt: sale.createdAt,
         updatedAt: sale.updatedAt,
-        totalPrice: sale.totalPrice,
+        subtotalPrice: Number(sale.subtotalPrice),
+        discount: Number(sale.discount),
+        totalPrice: Number(sale.totalPrice),
+        refundedPrice: Number(sale.refundedPrice),
+        netTotalPrice: Number(sale.totalPrice) - Number(sale.refundedPrice),
+        taxes: summarizeTaxes(items.map(item => ({taxRate: item.taxRate, net: item.net, tax: item.tax, gross: item.total}))),
         items: items,
+        bundles: bundles,
+        payments: payments,
+        change: payments.reduce((acc, payment) => acc + payment.change, 0),
+        expiresAt: sale.expiresAt || undefined,
+        clientId: sale.clientId || undefined,
+        stockOverride: sale.stockOverride,
+        reviewedById: sale.reviewedById || undefined,
+        reviewedAt: sale.reviewedAt || undefined,
+        hoursApprovedById: sale.hoursApprovedById || undefined,
+        customerNif: sale.customerNif || undefined,
+        cancellation: (sale.status == SaleStatus.CANCELLED) ? {
+            cancelledById: sale.cancelledById || undefined,
+            reason: sale.cancelReason!!,
+            cancelledAt: sale.cancelledAt!!,
+        } : undefined,
+    }
+}
+
+/**
+ * Takes a SaleItem with a price override and its Sale, and formats it to a PriceOverrideInfo object.
+ * 
+ * @param item The SaleItem object.
+ * @returns The item formatted as a PriceOverrideInfo object.
+ */
+function toPriceOverrideInfo(item: SaleItem): PriceOverrideInfo {
+    const sale = item.sale!!;
+    return {
+        saleId: sale.saleId,
+        createdAt: sale.createdAt,
+        status: sale.status,
+        sellerId: sale.sellerId,
+        locationId: sale.locationId,
+        productId: item.productId,
+        quantity: item.quantity,
+        price: item.price,
+        overridePrice: item.overridePrice!!,
+        amount: (item.price - item.overridePrice!!) * item.quantity,
+        reason: item.overrideReason!!,
+        approvedById: item.overrideApprovedById || undefined,
+    };
+}
+
+/**
+ * Takes a SaleReturn object and formats it to a SaleReturnInfo object.
+ * 
+ * @param saleReturn The SaleReturn object.
+ * @returns The return formatted as a SaleReturnInfo object.
+ */
+function toSaleReturnInfo(saleReturn: SaleReturn): SaleReturnInfo {
+    return {
+        returnId: saleReturn.returnId,
+        saleId: saleReturn.saleId,
+        productId: saleReturn.productId,
+        locationId: saleReturn.locationId,
+        userId: saleReturn.userId,
+        quantity: saleReturn.quantity,
+        amount: saleReturn.amount,
+        reason: saleReturn.reason,
+        createdAt: saleReturn.createdAt,
     }
 }
 
 // ------------------------------ Request Formats ------------------------------ //
 
+interface SalesFilters {
+    startDate: Date,
+    endDate: Date,
+    productId?: UUID,
+    sellerId?: UUID,
+    locationId?: UUID,
+    status?: SaleStatus,
+    paymentMethod?: PaymentMethod,
+    /** Only sales accepted without enough stock that haven't been reviewed yet. */
+    needsReview?: boolean,
+}
+
+interface OfflineSaleOptions {
+    /** Identifier generated by the device that recorded the sale. */
+    clientId?: string,
+    /** When the sale was recorded. */
+    createdAt?: Date,
+    /** Accept the sale even if the stock goes negative. */
+    allowNegativeStock?: boolean,
+}
+
 interface CreateSaleListItem {
     productId: UUID,
     /** @isInt @minimum 1 minimum 1. */
     quantity: number,
+    /** Unit price charged instead of the catalog price (e.g., a damaged item). Requires overrideReason. */
+    price?: Price,
+    overrideReason?: PriceOverrideReason,
+}
+
+interface SalePaymentParams {
+    method: PaymentMethod,
+    /** 
+     * Amount in euro cents. For cash, the amount received from the customer.
+     * @isInt
+     * @minimum 1 minimum 1.
+     */
+    amount: number,
 }
 
 /** JSON request format for the "POST /sales" endpoint. */
 interface CreateSaleParams {
     locationId: UUID,
-    list: CreateSaleListItem[]
+    list: CreateSaleListItem[],
+    /** If true, the stock is only reserved until the sale is confirmed. */
+    pending?: boolean,
+    /** @example "INDIE2022" */
+    promoCode?: string,
+    /** Required, unless the sale is pending. */
+    payments?: SalePaymentParams[],
+    /** The customer's userId. */
+    customerId?: UUID,
+    /** Finds the customer by email, instead of userId. */
+    customerEmail?: Email,
+    /** The customer's tax number, printed on the invoice. */
+    customerNif?: Nif,
+    /** A manager's approval token (see "POST /auth/approvals"), for price overrides beyond the threshold. */
+    overrideApproval?: string,
+    /** A manager's approval token (see "POST /auth/approvals"), for selling while the location is closed. */
+    hoursApproval?: string,
+}
+
+/** What to do with offline sales without enough stock. */
+enum StockConflictPolicy {
+    // The sale is rejected.
+    REJECT = "reject",
+    // The sale is accepted, the stock goes negative and the sale is flagged for review.
+    OVERRIDE = "override",
+}
+
+interface OfflineSaleParams extends Omit<CreateSaleParams, "pending"> {
+    /**
+     * Identifier generated by the device. Must be unique for each seller.
+     * @minLength 1
+     * @maxLength 255
+     */
+    clientId: string,
+    /** When the sale was recorded. Must be within the offline window (see "sales.offlineWindowSeconds"). */
+    createdAt: Date,
+}
+
+/** JSON request format for the "POST /sales/batch" endpoint. */
+interface SyncSalesParams {
+    /** @maxItems 500 */
+    sales: OfflineSaleParams[],
+    policy?: StockConflictPolicy,
+}
+
+/** JSON request format for the "POST /sales/{saleId}/confirm" endpoint. */
+interface ConfirmSaleParams {
+    payments: SalePaymentParams[],
+}
+
+/** JSON request format for the "POST /sales/{saleId}/cancel" endpoint. */
+interface CancelSaleParams {
+    /** 
+     * @minLength 1 minimum length 1.
+     * @example "Customer changed their mind."
+     */
+    reason: string,
+}
+
+interface SaleReturnListItem {
+    productId: UUID,
+    /** @isInt @minimum 1 minimum 1. */
+    quantity: number,
+}
+
+/** JSON request format for the "POST /sales/{saleId}/returns" endpoint. */
+interface CreateSaleReturnParams {
+    /** The location where the items are restocked. Defaults to the sale's location. */
+    locationId?: UUID,
+    /** 
+     * @minLength 1 minimum length 1.
+     * @example "Wrong size."
+     */
+    reason: string,
+    list: SaleReturnListItem[]
 }
 
 // ------------------------------ Response Formats ------------------------------ //
@@ -350,21 +2100,145 @@ interface CreateSaleParams {
 interface SaleItemInfo {
     productId: UUID,
     quantity: number,
+    /** List price. */
     price: number,
+    subtotal: number,
+    discount: number,
     total: number,
+    /** VAT rate, in percentage, at the time of the sale. */
+    taxRate: TaxRate,
+    /** Total without VAT. */
+    net: number,
+    /** VAT included in the total. */
+    tax: number,
+    returned: number,
+    refunded: number,
+    netTotal: number,
+    /** Unit price charged instead of the list price. The difference is part of the discount. */
+    overridePrice?: number,
+    overrideReason?: PriceOverrideReason,
+    /** The manager who approved an override beyond the threshold. */
+    overrideApprovedById?: UUID,
+}
+
+interface PriceOverrideInfo {
+    saleId: UUID,
+    createdAt: Date,
+    status: SaleStatus,
+    sellerId: UUID,
+    locationId: UUID,
+    productId: UUID,
+    quantity: number,
+    /** Catalog price. */
+    price: number,
+    /** Unit price charged. */
+    overridePrice: number,
+    /** Total below the catalog price. */
+    amount: number,
+    reason: PriceOverrideReason,
+    /** The manager who approved an override beyond the threshold. */
+    approvedById?: UUID,
+}
+
+interface SaleBundleInfo {
+    productId: UUID,
+    quantity: number,
+    /** The bundle's unit price. */
+    price: number,
+}
+
+interface SalePaymentInfo {
+    method: PaymentMethod,
+    /** Amount applied to the sale. */
+    amount: number,
+    /** Amount received from the customer. */
+    tendered: number,
+    change: number,
+}
+
+interface SaleCancellationInfo {
+    /** Missing if the sale was cancelled automatically (e.g., an expired reservation). */
+    cancelledById?: UUID,
+    reason: string,
+    cancelledAt: Date,
+}
+
+interface SaleReturnInfo {
+    returnId: UUID,
+    saleId: UUID,
+    productId: UUID,
+    locationId: UUID,
+    userId: UUID,
+    quantity: number,
+    amount: number,
+    reason: string,
+    createdAt: Date,
 }
 
-interface SaleInfo {
+export interface SaleInfo {
     saleId: UUID,
-    customerId: UUID,
+    customerId?: UUID,
     sellerId: UUID,
     sellerName: string,
     locationId: UUID,
     status: SaleStatus,
+    promotionId?: UUID,
     createdAt: Date,
     updatedAt: Date,
+    subtotalPrice: number,
+    discount: number,
     totalPrice: number,
+    refundedPrice: number,
+    netTotalPrice: number,
+    /** VAT totals of each rate. */
+    taxes: TaxSummary[],
+    /** The bundles' components are in the items, with the bundle's savings as discount. */
     items: SaleItemInfo[],
+    bundles: SaleBundleInfo[],
+    payments: SalePaymentInfo[],
+    /** Total change given back to the customer. */
+    change: number,
+    /** When a pending sale's reservation expires. */
+    expiresAt?: Date,
+    /** Identifier generated by the device, for sales recorded offline. */
+    clientId?: string,
+    /** True if the sale was accepted without enough stock. */
+    stockOverride: boolean,
+    /** The manager who reviewed the stock override. */
+    reviewedById?: UUID,
+    reviewedAt?: Date,
+    /** The manager who approved selling while the location was closed. */
+    hoursApprovedById?: UUID,
+    /** The customer's tax number, printed on the invoice. */
+    customerNif?: Nif,
+    cancellation?: SaleCancellationInfo,
+}
+
+interface SalesReport {
+    groupBy: ReportGroupBy,
+    startDate: Date,
+    endDate: Date,
+    rows: ReportRow[],
+    totals: ReportRow,
+    /** The totals of each VAT rate. */
+    taxes: ReportRow[],
+}
+
+enum SyncResult {
+    CREATED = "created",
+    DUPLICATE = "duplicate",
+    REJECTED = "rejected",
+}
+
+interface SyncSaleResult {
+    clientId: string,
+    result: SyncResult,
+    /** The created sale or the sale uploaded before. */
+    saleId?: UUID,
+    /** True if the sale was accepted without enough stock. */
+    stockOverride?: boolean,
+    /** Why the sale was rejected. */
+    reason?: string,
 }
 
 /** JSON response format for the "GET /sales" endpoint. */
@@ -373,14 +2247,80 @@ export interface SearchSalesResult {
     data: SaleInfo[]
 }
 
+/** JSON response format for the "GET /sales/overrides" endpoint. */
+interface GetPriceOverridesResult {
+    status: 200,
+    data: PriceOverrideInfo[]
+}
+
+/** JSON response format for the "GET /sales/mine" endpoint. */
+interface GetMySalesResult {
+    status: 200,
+    data: {
+        sales: SaleInfo[],
+        /** The current day, in Lisbon. */
+        day: Date,
+        /** The seller's completed sales of the current day. */
+        runningTotal: ReportRow,
+    }
+}
+
 /** JSON response format for the "GET /sales" endpoint. */
 export interface GetSalesInfoResult {
     status: 200,
     data: SaleInfo
 }
 
+/** JSON response format for the "GET /sales/reports" endpoint. */
+export interface GetSalesReportResult {
+    status: 200,
+    data: SalesReport
+}
+
+/** JSON response format for the "POST /sales/batch" endpoint. */
+export interface SyncSalesResult {
+    status: 200,
+    data: SyncSaleResult[]
+}
+
+/** JSON response format for the "POST /sales/{saleId}/review" endpoint. */
+export interface ReviewSaleResult {
+    status: 200,
+    data: SaleInfo
+}
+
 /** JSON response format for the "POST /sales" endpoint. */
 export interface CreateSaleResult {
     status: 201,
     data: SaleInfo
+}
+
+/** JSON response format for the "POST /sales/{saleId}/confirm" endpoint. */
+export interface ConfirmSaleResult {
+    status: 200,
+    data: SaleInfo
+}
+
+/** JSON response format for the "POST /sales/{saleId}/release" endpoint. */
+export interface ReleaseSaleResult {
+    status: 200,
+    data: SaleInfo
+}
+
+/** JSON response format for the "POST /sales/{saleId}/cancel" endpoint. */
+export interface CancelSaleResult {
+    status: 200,
+    data: SaleInfo
+}
+
+/** JSON response format for the "POST /sales/{saleId}/returns" endpoint. */
+export interface CreateSaleReturnResult {
+    status: 201,
+    data: SaleInfo
+}
+
+/** JSON response format for the "GET /sales/{saleId}/returns" endpoint. */
+export interface GetSaleReturnsResult {
+    status: 200,
+    data: SaleReturnInfo[]
 }
\ No newline at end of file
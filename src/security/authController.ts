@@ -1,15 +1,16 @@
-import { Body, Controller, Post, Request, Response, Route, SuccessResponse, Tags } from "tsoa";
+import { Body, Controller, Post, Request, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
 import * as jwt from "jsonwebtoken";
-import { security as config } from "../config.json";
+import { security as config, sales as salesConfig } from "../config.json";
 import { User } from "../users/userModel";
 import { Fullname, Password, Username, UUID } from "../common/types";
 import { Request as ExpressRequest, Response as ExpressResponse } from "express";
-import { Role } from "../common/roles";
+import { hasRolePrivileges, Role } from "../common/roles";
 import { Transaction } from "sequelize";
 import { getNowAfterSeconds, hasDateExpired, randomToken, validateData } from "../utils/crypto";
 import { AuthenticationError, AppErrorCode, ForbiddenError, NotFoundError, NotFoundErrorResponse, AuthenticationErrorResponse, ForbiddenErrorResponse, BadRequestError, AppError } from "../common/errors";
 import { OAuth2Client } from "google-auth-library";
 import { appLogger } from "../utils/logger";
+import { AuthRequest, SecurityScheme } from "./authorization";
 
 // Access token info. As the name implies, this token grants access to the application resources.
 const accessSecret: string = process.env.ACCESS_SECRET || config.ACCESS_SECRET;
@@ -20,6 +21,11 @@ const accessExpires: number = config.accessExpiresInSeconds;
 const refreshCookie: string = config.refreshCookie;
 const refreshExpires: number = config.refreshExpiresInSeconds;
 
+// Approval token info. This token lets a seller do an action that needs a manager's approval.
+// Signed with its own secret, so it can't be used as an access token (and vice-versa).
+const approvalSecret: string = process.env.APPROVAL_SECRET || config.APPROVAL_SECRET;
+const approvalExpires: number = salesConfig.approvalExpiresInSeconds;
+
 // Google ID client
 const GOOGLE_ID: string = process.env.GOOGLE_ID || config.GOOGLE_ID;
 const googleClient = new OAuth2Client(GOOGLE_ID);
@@ -38,6 +44,26 @@ const googleClient = new OAuth2Client(GOOGLE_ID);
     locationId?: UUID,
 }
 
+/** The actions that may need a manager's approval. */
+export enum ApprovalScope {
+    PRICE_OVERRIDE = "price_override",
+    /** Selling while the location is closed. */
+    OUTSIDE_HOURS = "outside_hours",
+}
+
+/**
+ * The JSON Web Token format for a manager's approval.
+ * 
+ * @param approverId The manager's unique identifier.
+ * @param sellerId The user who may use the approval.
+ * @param scope The approved action.
+ */
+interface JwtApprovalFormat {
+    approverId: UUID,
+    sellerId: UUID,
+    scope: ApprovalScope,
+}
+
 const TAG_AUTH = "Auth";
 @Route("auth")
 export class AuthController extends Controller {
@@ -156,6 +182,56 @@ export class AuthController extends Controller {
         }
     }
 
+    /**
+     * A manager approves an action of the logged in user (e.g., a price override beyond the allowed threshold),
+     * by entering their credentials on the user's device. Returns a short-lived approval token,
+     * which only the logged in user may use.
+     * 
+     * @summary Get a manager's approval.
+     */
+    @Post("approvals")
+    @Tags(TAG_AUTH)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(201, "Approval granted.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not a manager.")
+    @Response<NotFoundErrorResponse>(404, "User Not Found.")
+    public async createApproval(
+        @Request() request: AuthRequest,
+        @Body() body: CreateApprovalParams,
+    ): Promise<CreateApprovalResult> {
+        const { username, password, scope } = body;
+
+        const manager = await User.findOne({where: {username: username}});
+
+        // Check if user exists and password matches
+        if (manager == null || !(await validateData(password, manager.password || ""))) {
+            return Promise.reject(new NotFoundError({
+                code: AppErrorCode.NOT_FOUND,
+                message: "User not found",
+            }));
+        }
+
+        if (!hasRolePrivileges(manager.role, Role.MANAGER)) {
+            return Promise.reject(new ForbiddenError({
+                message: "Only managers can approve.",
+                code: AppErrorCode.PRIVILEGE
+            }));
+        }
+
+        const payload: JwtApprovalFormat = {approverId: manager.userId, sellerId: request.auth.userId, scope: scope};
+        const token = await signPayload(payload, approvalSecret, {expiresIn: approvalExpires});
+
+        return {
+            status: 201,
+            data: {
+                token: token,
+                approverId: manager.userId,
+                expiresAt: getNowAfterSeconds(approvalExpires),
+            }
+        }
+    }
+
     /**
      * The server will clear the authentication tokens.
      * 
@@ -270,6 +346,33 @@ export class AuthController extends Controller {
 
 // ------------------------------ Helper Functions ------------------------------ //
 
+/**
+ * Verifies a manager's approval.
+ * 
+ * @param token The approval token.
+ * @param sellerId The user using the approval.
+ * @param scope The action to be approved.
+ * @param date When the action happened, for sales recorded offline. The approval must have been valid at that date,
+ * i.e., issued before and not expired yet. Otherwise, it must be valid now. The date comes from the device,
+ * so it must be bounded beforehand (see "sales.offlineWindowSeconds").
+ * @returns A promise to be resolved with the manager's unique identifier, or null if the approval isn't valid.
+ */
+export async function verifyApproval(token: string, sellerId: UUID, scope: ApprovalScope, date?: Date): Promise<UUID | null> {
+    try {
+        const payload = await verifyToken(token, approvalSecret, {ignoreExpiration: date != null}) as JwtApprovalFormat & jwt.JwtPayload;
+
+        if (date != null) {
+            const timestamp = Math.floor(date.getTime() / 1000);
+            if (payload.iat == null || payload.exp == null || timestamp < payload.iat || timestamp >= payload.exp) {
+                return null;
+            }
+        }
+        return (payload.sellerId == sellerId && payload.scope == scope) ? payload.approverId : null;
+    } catch (err) {
+        return null;
+    }
+}
+
 /**
  * Creates the access token and sets the respective cookies. 
  * 
@@ -353,6 +456,14 @@ interface LoginBasicParams {
     password: Password,
 }
 
+interface CreateApprovalParams {
+    /** The manager's username. */
+    username: Username,
+    /** The manager's password. */
+    password: Password,
+    scope: ApprovalScope,
+}
+
 // Google ID credentials
 interface LoginGoogleParams {
     credential: string,
@@ -363,4 +474,14 @@ interface LoginGoogleParams {
 interface LoginResult {
     status: 200,
     data: JwtAccessFormat
+}
+
+/** JSON response format for the "POST /auth/approvals" endpoint. */
+interface CreateApprovalResult {
+    status: 201,
+    data: {
+        token: string,
+        approverId: UUID,
+        expiresAt: Date,
+    }
 }
\ No newline at end of file
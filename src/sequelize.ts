@@ -1,4 +1,5 @@
-import { Options, Sequelize } from "sequelize";
+import { DatabaseError, DataTypes, ModelAttributeColumnOptions, Options, Sequelize, TransactionOptions } from "sequelize";
+import { SequelizeTransactionCallback } from "./common/types";
 import { sequelize as config } from "./config.json";
 import { databaseLogger } from "./utils/logger";
 
@@ -6,6 +7,11 @@ import { databaseLogger } from "./utils/logger";
 const URL: string = process.env.DATABASE_URL || config.DATABASE_URL;
 const options: Options = config.options;
 
+// Attempts of a transaction that keeps conflicting with concurrent transactions.
+const MAX_TRANSACTION_ATTEMPTS = 8;
+// Maximum wait before the next attempt, in milliseconds. Grows with each attempt.
+const RETRY_DELAY = 25;
+
 /**
  * Initializes the Model's associations.
  */
@@ -20,6 +26,21 @@ type AssociationsInit = () => Promise<void>
  const models: ModelInit[] = [];
  const associations: AssociationsInit[] = [];
 
+/**
+ * Fills the columns added to existing tables, before they're made NOT NULL.
+ * Runs on every start, so it must only update the rows that haven't been filled yet.
+ * @param seq The Sequelize instance.
+ */
+type Migration = (seq: Sequelize) => Promise<void>;
+const migrations: Migration[] = [];
+
+/** A column added to an existing table. */
+interface NewColumn {
+    table: string,
+    field: string,
+    attribute: ModelAttributeColumnOptions,
+}
+
 /**
  * Models defined elsewhere call this method to sync with the database during initialization. 
  * 
@@ -38,6 +59,15 @@ export function registerAssociations(init: AssociationsInit) {
     associations.push(init);
 }
 
+/**
+ * Models defined elsewhere call this method to fill the columns they added to existing tables.
+ * 
+ * @param migration Function that takes a sequelize instance and fills the new columns.
+ */
+export function registerMigration(migration: Migration) {
+    migrations.push(migration);
+}
+
 /**
  * Initializes the DB connection.
  */
@@ -55,7 +85,119 @@ export async function initDatabase(): Promise<void> {
 
     await Promise.all(models.map(func => func(sequelize)));
     await Promise.all(associations.map(func => func()));
+
+    // sync() only creates the missing tables, so the columns added to existing ones are migrated here.
+    const columns = await addNewColumns(sequelize);
     await sequelize.sync();
+    await completeNewColumns(sequelize, columns);
+}
+
+/**
+ * Adds the models' new columns to the existing tables, and the enums' new values. The columns are nullable
+ * and without foreign keys, as the other tables may not exist yet.
+ * 
+ * @param sequelize The Sequelize instance.
+ * @returns A promise to be either resolved with the added columns or rejected with an Error.
+ */
+async function addNewColumns(sequelize: Sequelize): Promise<NewColumn[]> {
+    const queryInterface = sequelize.getQueryInterface();
+    const added: NewColumn[] = [];
+
+    for (const model of Object.values(sequelize.models)) {
+        const table = model.getTableName() as string;
+        if (!await queryInterface.tableExists(table)) {
+            continue;
+        }
+
+        const columns = await queryInterface.describeTable(table);
+        for (const attribute of Object.values(model.getAttributes())) {
+            const field = attribute.field!!;
+            if (columns[field] == null) {
+                databaseLogger.info(`Adding column "${field}" to "${table}".`);
+                await queryInterface.addColumn(table, field, {...attribute, allowNull: true, references: undefined});
+                added.push({table, field, attribute});
+            } else if (attribute.type instanceof DataTypes.ENUM) {
+                const enumType = `"enum_${table}_${field}"`;
+                const [ rows ] = await sequelize.query(`SELECT unnest(enum_range(NULL::${enumType}))::text AS "value"`);
+                const existing = (rows as {value: string}[]).map(row => row.value);
+                for (const value of attribute.values!!.filter(value => !existing.includes(value))) {
+                    await sequelize.query(`ALTER TYPE ${enumType} ADD VALUE ${sequelize.escape(value)}`);
+                }
+            }
+        }
+    }
+    return added;
+}
+
+/**
+ * Adds the new columns' foreign keys, fills them with the registered migrations and makes them NOT NULL.
+ * 
+ * @param sequelize The Sequelize instance.
+ * @param columns The columns added to existing tables.
+ */
+async function completeNewColumns(sequelize: Sequelize, columns: NewColumn[]): Promise<void> {
+    const queryInterface = sequelize.getQueryInterface();
+
+    for (const { table, field, attribute } of columns) {
+        if (typeof attribute.references == "object") {
+            await queryInterface.addConstraint(table, {
+                type: "foreign key",
+                fields: [field],
+                references: {table: attribute.references.model as string, field: attribute.references.key!!},
+                onDelete: attribute.onDelete || "NO ACTION",
+                onUpdate: attribute.onUpdate || "NO ACTION",
+            });
+        }
+    }
+
+    for (const migration of migrations) {
+        await migration(sequelize);
+    }
+
+    for (const { table, field, attribute } of columns) {
+        if (attribute.allowNull === false) {
+            await sequelize.query(`ALTER TABLE "${table}" ALTER COLUMN "${field}" SET NOT NULL`);
+        }
+    }
+}
+
+/**
+ * Starts a transaction, like sequelize.transaction(), and starts it again if it couldn't be serialized
+ * with a concurrent transaction (e.g., two sales at the same location numbering their invoices).
+ * The callback may run more than once, so it must only change the database.
+ * Nested in another transaction (i.e., a savepoint), it isn't started again. Only the outer transaction can be.
+ * 
+ * @param sequelize The Sequelize instance.
+ * @param options The transaction's options.
+ * @param callback Callback for the transaction.
+ * @returns A promise to be either resolved with the transaction result or rejected with an Error.
+ */
+export async function retryTransaction<T>(
+    sequelize: Sequelize,
+    options: TransactionOptions,
+    callback: SequelizeTransactionCallback<T>
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await sequelize.transaction(options, callback);
+        } catch (err) {
+            if (attempt >= MAX_TRANSACTION_ATTEMPTS || options.transaction != null || !isSerializationFailure(err)) {
+                throw err;
+            }
+            databaseLogger.info(`Transaction couldn't be serialized. Retrying (attempt ${attempt + 1}).`);
+            // Random, so the conflicting transactions don't start again at the same time.
+            await new Promise(resolve => setTimeout(resolve, Math.random() * RETRY_DELAY * attempt));
+        }
+    }
+}
+
+/**
+ * @param err An error thrown by a transaction.
+ * @returns True if Postgres aborted the transaction because of a concurrent one (serialization failure or deadlock).
+ */
+function isSerializationFailure(err: unknown): boolean {
+    const code: string | undefined = (err instanceof DatabaseError) ? (err.original as {code?: string}).code : undefined;
+    return code == "40001" || code == "40P01";
 }
 
 /**
@@ -10,6 +10,8 @@ import https from "https";
 import { Role } from "./common/roles";
 import { hashData } from "./utils/crypto";
 import { appLogger } from "./utils/logger";
+import { startReservationSweeper } from "./sales/ReservationService";
+import { initSigningKey } from "./invoices/InvoiceService";
 
 const PORT: number = Number(process.env.PORT) || config.server.PORT;
 const USE_HTTPS: boolean = config.server.https;
@@ -22,6 +24,9 @@ const PASSPHRASE: string = process.env.CERT_PASSPHRASE || config.server.CERT_PAS
 // which breaks the code in other places.
 (async () => {
     appLogger.info("Starting...");
+
+    // Fiscal documents can't be issued without the signing key
+    await initSigningKey();
     
     // Start database
     await initDatabase();
@@ -45,6 +50,9 @@ const PASSPHRASE: string = process.env.CERT_PASSPHRASE || config.server.CERT_PAS
             appLogger.info("Created default admin account.")
         }
     }
+    // Release expired stock reservations
+    startReservationSweeper();
+
     // Start server
     if (USE_HTTPS) {
         const certificate = fs.readFileSync(CERT_PATH, "utf-8");
@@ -0,0 +1,167 @@
+/**
+ * Every change to the stock goes through this service, so that it's recorded in the movement ledger.
+ * Callers are expected to validate the quantities (e.g., enough stock for a sale) beforehand.
+ */
+import { CreationAttributes, Op, QueryTypes, Transaction } from "sequelize";
+import { UUID } from "../common/types";
+import { Product } from "../products/productModel";
+import { Stock } from "../products/stockModel";
+import { AdjustmentReason, MovementType, StockMovement } from "./stockMovementModel";
+import { stock as config } from "../config.json";
+
+export interface StockQuantity {
+    productId: UUID,
+    locationId: UUID,
+    quantity: number,
+}
+
+/** What caused a change to the stock. */
+export interface MovementSource {
+    type: MovementType,
+    userId: UUID,
+    referenceId?: UUID | null,
+    reason?: AdjustmentReason | null,
+}
+
+// Adds to the stock in a single statement, creating it if the product has none at the location yet.
+const UPSERT_STOCK_SQL = `INSERT INTO "stock" ("productId", "locationId", "quantity") VALUES ($productId, $locationId, $delta)
+    ON CONFLICT ("productId", "locationId") DO UPDATE SET "quantity" = "stock"."quantity" + EXCLUDED."quantity"
+    RETURNING "quantity"`;
+
+/**
+ * Adds quantities to the stock, creating the stock of products that don't have any yet at the location.
+ * Each quantity is added in a single statement, so concurrent changes (e.g., sales) aren't overwritten.
+ *
+ * @param list The products, their locations and the quantities to add. Negative quantities are removed.
+ * @param source What caused the change.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the new stock or rejected with an Error.
+ */
+export async function addStock(list: StockQuantity[], source: MovementSource, transaction: Transaction): Promise<StockQuantity[]> {
+    // Always lock the rows in the same order, so concurrent transactions don't deadlock.
+    const sorted: StockQuantity[] = [...list].sort((a, b) =>
+        a.productId.localeCompare(b.productId) || a.locationId.localeCompare(b.locationId)
+    );
+
+    const quantities = new Map<StockQuantity, number>();
+    for (const item of sorted) {
+        const { productId, locationId, quantity: delta } = item;
+        const result: {quantity: number}[] = await Stock.sequelize!!.query(UPSERT_STOCK_SQL, {
+            bind: {productId, locationId, delta},
+            type: QueryTypes.SELECT,
+            transaction,
+        });
+        quantities.set(item, result[0].quantity);
+    }
+
+    const changes: StockQuantity[] = list.map(item => ({...item, quantity: quantities.get(item)!!}));
+    await recordMovements(changes, list.map(item => item.quantity), source, transaction);
+    return changes;
+}
+
+/**
+ * Sets the stock to absolute quantities (e.g., after counting it).
+ *
+ * @param list The products, their locations and the new quantities.
+ * @param source What caused the change.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the new stock or rejected with an Error.
+ */
+export async function setStock(list: StockQuantity[], source: MovementSource, transaction: Transaction): Promise<StockQuantity[]> {
+    // Locked until the transaction ends, so the recorded differences match the replaced quantities.
+    const current: Stock[] = await findStock(list, transaction);
+    await Stock.bulkCreate(list, {transaction, updateOnDuplicate: ["quantity"]});
+    const deltas: number[] = list.map(item => item.quantity - (findQuantity(current, item) || 0));
+    await recordMovements(list, deltas, source, transaction);
+    return list;
+}
+
+/**
+ * Adds a quantity to the stock of a product at a location in a single statement, so concurrent changes
+ * (e.g., sales) aren't overwritten. Unlike addStock, the stock never goes below zero.
+ *
+ * @param item The product, its location and the quantity to add. Negative quantities are removed.
+ * @param source What caused the change.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the new quantity, or null if there isn't enough stock,
+ * or rejected with an Error.
+ */
+export async function adjustStock(item: StockQuantity, source: MovementSource, transaction: Transaction): Promise<number | null> {
+    const { productId, locationId, quantity: delta } = item;
+
+    // Only products without stock at the location need to be inserted, and they can only be added to.
+    const sql = (delta > 0)
+        ? UPSERT_STOCK_SQL
+        : `UPDATE "stock" SET "quantity" = "quantity" + $delta
+           WHERE "productId" = $productId AND "locationId" = $locationId AND "quantity" + $delta >= 0
+           RETURNING "quantity"`;
+
+    const result: {quantity: number}[] = await Stock.sequelize!!.query(sql, {
+        bind: {productId, locationId, delta},
+        type: QueryTypes.SELECT,
+        transaction,
+    });
+    if (result.length == 0) {
+        return null;
+    }
+
+    const quantity: number = result[0].quantity;
+    await recordMovements([{productId, locationId, quantity}], [delta], source, transaction);
+    return quantity;
+}
+
+/**
+ * Records changes to the stock that were already applied. Changes without a difference aren't recorded.
+ *
+ * @param changes The products, their locations and the new quantities.
+ * @param deltas The differences, in the same order.
+ * @param source What caused the changes.
+ * @param transaction The transaction.
+ */
+export async function recordMovements(
+    changes: StockQuantity[],
+    deltas: number[],
+    source: MovementSource,
+    transaction: Transaction
+): Promise<void> {
+    const movements: CreationAttributes<StockMovement>[] = changes
+        .map((change, idx) => ({
+            productId: change.productId,
+            locationId: change.locationId,
+            type: source.type,
+            delta: deltas[idx],
+            quantity: change.quantity,
+            userId: source.userId,
+            referenceId: source.referenceId || null,
+            reason: source.reason || null,
+        }))
+        .filter(movement => movement.delta != 0);
+    await StockMovement.bulkCreate(movements, {transaction});
+}
+
+/**
+ * Stock at or below the threshold is low. The location's threshold takes precedence over the product's,
+ * which takes precedence over the global threshold.
+ *
+ * @param product The product.
+ * @param stock The product's stock at a location. If missing, the product's threshold is returned.
+ * @returns The low stock threshold.
+ */
+export function getLowStockThreshold(product: Product, stock?: Stock | null): number {
+    return stock?.lowStockThreshold ?? product.lowStockThreshold ?? config.lowStockThreshold;
+}
+
+async function findStock(list: StockQuantity[], transaction: Transaction): Promise<Stock[]> {
+    if (list.length == 0) {
+        return [];
+    }
+    return await Stock.findAll({
+        where: {[Op.or]: list.map(item => ({productId: item.productId, locationId: item.locationId}))},
+        lock: true,
+        transaction,
+    });
+}
+
+function findQuantity(stock: Stock[], item: StockQuantity): number | undefined {
+    return stock.find(s => s.productId == item.productId && s.locationId == item.locationId)?.quantity;
+}
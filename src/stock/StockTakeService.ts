@@ -0,0 +1,176 @@
+/**
+ * Stock-takes count the stock at a location. Opening one snapshots the stock, then the counts are
+ * submitted, possibly in several parts, and approving it applies the variances as adjustments.
+ *
+ * The location keeps selling while it's being counted. So each product's count is compared with the stock
+ * at the time it was counted, and the variance is added to the current stock, instead of replacing it.
+ */
+import { Transaction } from "sequelize";
+import { AppError, AppErrorCode, ConflitError, NotFoundError } from "../common/errors";
+import { UUID } from "../common/types";
+import { Product } from "../products/productModel";
+import { Stock } from "../products/stockModel";
+import { ProductCategory } from "../products/types";
+import { MovementType } from "./stockMovementModel";
+import { StockTakeItem } from "./stockTakeItemModel";
+import { StockTake, StockTakeStatus } from "./stockTakeModel";
+import { adjustStock } from "./StockService";
+
+export interface CountedQuantity {
+    productId: UUID,
+    quantity: number,
+}
+
+/**
+ * Opens a stock-take at a location and snapshots its stock.
+ *
+ * @param locationId The location's unique identifier.
+ * @param userId The unique identifier of the manager opening the stock-take.
+ * @param note A note about the stock-take.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the stock-take, with its items, or rejected with an Error.
+ */
+export async function openStockTake(
+    locationId: UUID,
+    userId: UUID,
+    note: string | null,
+    transaction: Transaction
+): Promise<StockTake> {
+    const stock: Stock[] = await Stock.findAll({where: {locationId}, transaction});
+
+    const stockTake = await StockTake.create(
+        {locationId, status: StockTakeStatus.OPEN, openedById: userId, note},
+        {transaction}
+    );
+    stockTake.items = await StockTakeItem.bulkCreate(stock.map(s => ({
+        stockTakeId: stockTake.stockTakeId,
+        productId: s.productId,
+        snapshot: s.quantity,
+    })), {transaction});
+
+    return stockTake;
+}
+
+/**
+ * Finds an open stock-take, with its items, and locks it until the end of the transaction.
+ *
+ * @param stockTakeId The stock-take's unique identifier.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the stock-take or an AppError, or rejected with an Error.
+ */
+export async function findOpenStockTake(stockTakeId: UUID, transaction: Transaction): Promise<StockTake | AppError> {
+    const stockTake = await StockTake.findByPk(stockTakeId, {transaction, lock: transaction.LOCK.UPDATE});
+
+    if (stockTake == null) {
+        return new NotFoundError({
+            message: "Stock-take not found.",
+            code: AppErrorCode.NOT_FOUND,
+            fields: {
+                "stockTakeId": {
+                    message: "This stockTakeId doesn't exist.",
+                    value: stockTakeId
+                }
+            }
+        });
+    }
+    if (stockTake.status != StockTakeStatus.OPEN) {
+        return new ConflitError({
+            message: `The stock-take isn't open. It was already ${stockTake.status}.`
+        });
+    }
+
+    stockTake.items = await stockTake.getItems({transaction});
+    return stockTake;
+}
+
+/**
+ * Records the counted quantities of some products. Counting a product again replaces its previous count.
+ * Products that weren't in the snapshot (e.g., transferred during the count) are added.
+ *
+ * @param stockTake The open stock-take, with its items.
+ * @param list The products and their counted quantities.
+ * @param userId The unique identifier of the user who counted.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the stock-take's items or an AppError, or rejected with an Error.
+ */
+export async function submitCounts(
+    stockTake: StockTake,
+    list: CountedQuantity[],
+    userId: UUID,
+    transaction: Transaction
+): Promise<StockTakeItem[] | AppError> {
+    const productIds: UUID[] = list.map(item => item.productId);
+
+    // Bundles take their components' stock.
+    const bundles = await Product.count({
+        where: {productId: productIds, category: ProductCategory.BUNDLE},
+        transaction
+    });
+    if (bundles > 0) {
+        return new ConflitError({
+            message: "Can't count bundles. Count their components instead."
+        });
+    }
+
+    // The stock right now, which the counts will be compared to.
+    const stock: Stock[] = await Stock.findAll({
+        where: {productId: productIds, locationId: stockTake.locationId},
+        transaction
+    });
+
+    const now = new Date();
+    await StockTakeItem.bulkCreate(list.map(item => ({
+        stockTakeId: stockTake.stockTakeId,
+        productId: item.productId,
+        snapshot: 0,                    // Only for products that weren't in the snapshot.
+        expected: stock.find(s => s.productId == item.productId)?.quantity || 0,
+        counted: item.quantity,
+        countedById: userId,
+        countedAt: now,
+    })), {transaction, updateOnDuplicate: ["expected", "counted", "countedById", "countedAt"]});
+
+    return await stockTake.getItems({transaction});
+}
+
+/**
+ * Adds the variances of the counted products to the stock. Products that weren't counted aren't changed.
+ *
+ * @param stockTake The open stock-take, with its items.
+ * @param userId The unique identifier of the manager approving the stock-take.
+ * @param transaction The transaction. Must be read committed, for the adjustments to wait for concurrent sales.
+ * @returns A promise to be either resolved when the variances are applied or rejected with an Error.
+ * Rejects with a ConflitError if the stock would go below zero, so the transaction must be rolled back.
+ */
+export async function applyVariances(stockTake: StockTake, userId: UUID, transaction: Transaction): Promise<void> {
+    for (const item of stockTake.items || []) {
+        const variance = getVariance(item);
+        if (variance == null || variance == 0) {
+            continue;
+        }
+
+        const quantity = await adjustStock(
+            {productId: item.productId, locationId: stockTake.locationId, quantity: variance},
+            {type: MovementType.COUNT, userId: userId, referenceId: stockTake.stockTakeId},
+            transaction
+        );
+        if (quantity == null) {
+            return Promise.reject(new ConflitError({
+                message: "Can't apply the variances. The stock can't go below zero.",
+                fields: {
+                    [item.productId]: {
+                        message: "The stock changed too much since it was counted. Count it again.",
+                        value: variance
+                    }
+                }
+            }));
+        }
+    }
+}
+
+/**
+ * @param item A product in a stock-take.
+ * @returns The difference between the counted and the expected quantities, or null if it wasn't counted yet.
+ */
+export function getVariance(item: StockTakeItem): number | null {
+    return (item.counted == null || item.expected == null) ? null : item.counted - item.expected;
+}
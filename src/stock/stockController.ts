@@ -0,0 +1,1403 @@
+import { ForeignKeyConstraintError, Op, Transaction, UniqueConstraintError, WhereOptions } from "sequelize";
+import { Body, Controller, Get, Header, Path, Post, Put, Query, Request, Response, Route, Security, SuccessResponse, Tags } from "tsoa";
+import { BadRequestError, ConflitError, AppErrorCode, NotFoundError, AppError, AuthenticationErrorResponse, ForbiddenErrorResponse, ServerErrorResponse, BadRequestErrorResponse, ConflitErrorResponse, NotFoundErrorResponse } from "../common/errors";
+import { UUID } from "../common/types";
+import { Role } from "../common/roles";
+import { Location } from "../locations/locationModel";
+import { Product } from "../products/productModel";
+import { Stock } from "../products/stockModel";
+import { ProductCategory } from "../products/types";
+import { getReservedStock, ReservedStock } from "../sales/ReservationService";
+import { AuthRequest, SecurityScheme } from "../security/authorization";
+import { runIdempotent } from "../idempotency/IdempotencyService";
+import { StockTransfer, TransferStatus } from "./stockTransferModel";
+import { StockTransferItem } from "./stockTransferItemModel";
+import { AdjustmentReason, MovementType, StockMovement } from "./stockMovementModel";
+import { addStock, adjustStock, getLowStockThreshold, MovementSource, StockQuantity } from "./StockService";
+import { StockTake, StockTakeStatus } from "./stockTakeModel";
+import { applyVariances, findOpenStockTake, getVariance, openStockTake, submitCounts } from "./StockTakeService";
+
+const TAG_STOCK = "Stock";
+
+@Route("stock")
+export class StockController extends Controller {
+    /**
+     * Returns the stock movements, most recent first. Every change to the stock is recorded as a movement,
+     * with the change in quantity, the resulting quantity, the user and what caused it (e.g., the sale or transfer).
+     *
+     * @summary Retrieve the stock movement ledger.
+     *
+     * @param productId Only movements of this product.
+     * @param locationId Only movements at this location.
+     * @param type Only movements of this type.
+     * @param userId Only movements made by this user.
+     * @param referenceId Only movements caused by this sale, transfer or stock-take.
+     *
+     * @param startDate Movements after this date (inclusive). Use UTC format, time is optional.
+     * @isDate startDate Must be a date like 'YYYY-MM-DD'.
+     *
+     * @param endDate Movements before this date (inclusive). Use UTC format, time is optional.
+     * @isDate endDate Must be a date like 'YYYY-MM-DD'.
+     *
+     * @param limit Limit the number of movements returned. Minimum 1.
+     * @isInt limit Must be an integer >= 1.
+     * @minimum limit 1 minimum 1.
+     *
+     * @param page Used for pagination. When limit is used, chunks of movements will be skipped.
+     * @isInt page Must be an integer >= 0.
+     * @minimum page 0 minimum 0.
+     */
+    @Get("movements")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully returned the movements.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getMovements(
+        @Query() productId?: UUID,
+        @Query() locationId?: UUID,
+        @Query() type?: MovementType,
+        @Query() userId?: UUID,
+        @Query() referenceId?: UUID,
+        @Query() startDate?: Date,
+        @Query() endDate?: Date,
+        @Query() limit: number = 50,
+        @Query() page: number = 0,
+    ): Promise<GetMovementsResult> {
+        // Sanity check. Don't allow startDate to be greater than endDate
+        if (startDate != null && endDate != null && startDate > endDate) {
+            return Promise.reject(new BadRequestError({
+                message: "Bad dates.",
+                code: AppErrorCode.REQ_FORMAT,
+                fields: {
+                    "startDate": {
+                        message: "startDate can't be greater than endDate",
+                        value: startDate
+                    },
+                    "endDate": {
+                        message: "endDate can't be less than startDate",
+                        value: endDate
+                    }
+                }
+            }));
+        }
+
+        const result = await StockMovement.findAll({
+            where: {
+                ...(productId) ? {productId} : {},
+                ...(locationId) ? {locationId} : {},
+                ...(type) ? {type} : {},
+                ...(userId) ? {userId} : {},
+                ...(referenceId) ? {referenceId} : {},
+                ...(startDate || endDate) ? {createdAt: {
+                    ...(startDate) ? {[Op.gte]: startDate} : {},
+                    ...(endDate) ? {[Op.lte]: endDate} : {},
+                }} : {},
+            },
+            order: [["createdAt", "desc"]],
+            limit: limit,
+            offset: page * limit,
+        });
+
+        return {
+            status: 200,
+            data: result.map(toMovementInfo)
+        };
+    }
+
+    /**
+     * Adds or removes quantities of the stock (e.g., +12 received or -2 damaged), each with a reason.
+     * Unlike the "PATCH" stock endpoints, which set absolute quantities for full recounts, adjustments
+     * don't overwrite changes made at the same time, such as sales.
+     * Either every adjustment is applied or none is. Adjustments can't take the stock below zero.
+     *
+     * @summary Adjust the stock.
+     *
+     * @param idempotencyKey A unique key for these adjustments, chosen by the client. Retrying with the same key
+     * doesn't repeat the adjustments.
+     */
+    @Post("adjustments")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully adjusted the stock.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ConflitErrorResponse>(409, "Can't adjust the stock.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async createAdjustments(
+        @Request() request: AuthRequest,
+        @Body() body: CreateAdjustmentsParams,
+        @Header("Idempotency-Key") idempotencyKey?: string,
+    ): Promise<CreateAdjustmentsResult> {
+        const userId: UUID = request.auth.userId;
+        const route = "POST /stock/adjustments";
+
+        return await runIdempotent(
+            {key: idempotencyKey, userId: userId, route: route, payload: body},
+            {isolationLevel: Transaction.ISOLATION_LEVELS.READ_COMMITTED},
+            async (transaction) => ({
+                status: 200,
+                data: await processAdjustments(body, userId, transaction)
+            })
+        );
+    }
+
+    /**
+     * Returns every product and location with an available quantity (i.e., not reserved by pending sales)
+     * at or below its low stock threshold. The most urgent come first: sold out, then by the quantity left
+     * relative to the threshold.
+     *
+     * @summary Retrieve the low stock alerts.
+     *
+     * @param locationId Only alerts at this location.
+     */
+    @Get("alerts")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the alerts.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getAlerts(
+        @Query() locationId?: UUID,
+    ): Promise<GetAlertsResult> {
+        const result = await Stock.findAll({
+            where: (locationId) ? {locationId} : {},
+            include: {
+                association: Stock.associations.product,
+                attributes: ["productId", "name", "lowStockThreshold"],
+            },
+        });
+
+        const productIds: UUID[] = [...new Set(result.map(stock => stock.productId))];
+        const reserved: ReservedStock[] = await getReservedStock(productIds, locationId);
+
+        const alerts: AlertInfo[] = result
+            .map(stock => {
+                const held = reserved.find(r => r.productId == stock.productId && r.locationId == stock.locationId)?.quantity || 0;
+                return {
+                    productId: stock.productId,
+                    name: stock.product!!.name,
+                    locationId: stock.locationId,
+                    quantity: Math.max(stock.quantity - held, 0),
+                    reserved: held,
+                    lowStockThreshold: getLowStockThreshold(stock.product!!, stock),
+                };
+            })
+            .filter(alert => alert.quantity <= alert.lowStockThreshold)
+            .sort((a, b) => getUrgency(a) - getUrgency(b) || a.quantity - b.quantity);
+
+        return {
+            status: 200,
+            data: alerts
+        };
+    }
+
+    /**
+     * Sets the low stock thresholds. Without a location, the product's threshold is set, which applies
+     * to its total stock and to the locations without a threshold of their own. A null threshold
+     * falls back to the product's threshold, or the global one.
+     *
+     * @summary Set the low stock thresholds.
+     */
+    @Put("thresholds")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(204, "Successfully set the thresholds.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ConflitErrorResponse>(409, "Can't set the thresholds.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async updateThresholds(
+        @Body() body: UpdateThresholdsParams,
+    ): Promise<void> {
+        const { list } = body;
+        const keys = list.map(item => `${item.productId}/${item.locationId}`);
+
+        // Sanity check. Don't allow repeated products at the same location.
+        if (keys.some((key, idx) => keys.lastIndexOf(key) != idx)) {
+            return Promise.reject(new BadRequestError({
+                code: AppErrorCode.REQ_FORMAT,
+                message: "Repeated productId and locationId not allowed."
+            }));
+        }
+
+        const productIds: UUID[] = [...new Set(list.map(item => item.productId))];
+
+        try {
+            const result = await Stock.sequelize!!.transaction(
+                {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+                async (transaction) => {
+                    const products = await Product.findAll({
+                        attributes: ["productId", "category"],
+                        where: {productId: productIds},
+                        transaction
+                    });
+                    if (products.length != productIds.length) {
+                        return new ConflitError({
+                            message: "Can't set the thresholds. Some products don't exist."
+                        });
+                    }
+
+                    // Bundles take their components' stock, so only their total has a threshold.
+                    const locationItems = list.filter(item => item.locationId != null);
+                    const bundles = products.filter(p => p.category == ProductCategory.BUNDLE).map(p => p.productId);
+                    if (locationItems.some(item => bundles.includes(item.productId))) {
+                        return new ConflitError({
+                            message: "Can't set a bundle's threshold at a location. Set its components' thresholds instead."
+                        });
+                    }
+
+                    for (const item of list.filter(item => item.locationId == null)) {
+                        await Product.update(
+                            {lowStockThreshold: item.lowStockThreshold},
+                            {where: {productId: item.productId}, transaction}
+                        );
+                    }
+
+                    // Locations without stock of the product start with none.
+                    await Stock.bulkCreate(
+                        locationItems.map(item => ({
+                            productId: item.productId,
+                            locationId: item.locationId!!,
+                            quantity: 0,
+                            lowStockThreshold: item.lowStockThreshold,
+                        })),
+                        {transaction, updateOnDuplicate: ["lowStockThreshold"]}
+                    );
+                }
+            );
+
+            if (result instanceof AppError) {
+                return Promise.reject(result);
+            }
+
+        } catch (err) {
+            // Error during upsert
+            if (err instanceof ForeignKeyConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't set the thresholds. Some locations don't exist."
+                }));
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Returns the stock transfers, most recent first.
+     *
+     * @summary Retrieve a list of stock transfers.
+     *
+     * @param locationId Only transfers from or to this location.
+     * @param status Only transfers with this status.
+     *
+     * @param limit Limit the number of transfers returned. Minimum 1.
+     * @isInt limit Must be an integer >= 1.
+     * @minimum limit 1 minimum 1.
+     *
+     * @param page Used for pagination. When limit is used, chunks of transfers will be skipped.
+     * @isInt page Must be an integer >= 0.
+     * @minimum page 0 minimum 0.
+     */
+    @Get("transfers")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the transfers.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getTransfers(
+        @Query() locationId?: UUID,
+        @Query() status?: TransferStatus,
+        @Query() limit: number = 10,
+        @Query() page: number = 0,
+    ): Promise<GetTransfersResult> {
+        const where: WhereOptions<StockTransfer> = {
+            ...(locationId) ? {[Op.or]: [{fromLocationId: locationId}, {toLocationId: locationId}]} : {},
+            ...(status) ? {status} : {},
+        };
+
+        const result = await StockTransfer.findAll({
+            where,
+            include: includeItems(),
+            order: [["createdAt", "desc"]],
+            limit: limit,
+            offset: page * limit,
+        });
+
+        return {
+            status: 200,
+            data: result.map(toTransferInfo)
+        };
+    }
+
+    /**
+     * Moves stock from one location to another in a single step, so it can't race with sales.
+     * The source must have enough stock available (i.e., not reserved by pending sales).
+     *
+     * With "inTransit", the stock leaves the source now but only reaches the destination
+     * when the receiving location confirms what arrived, with "POST /stock/transfers/{transferId}/receive".
+     *
+     * @summary Transfer stock between locations.
+     *
+     * @param idempotencyKey A unique key for this transfer, chosen by the client. Retrying with the same key
+     * doesn't repeat the transfer.
+     */
+    @Post("transfers")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(201, "Successfully transferred the stock.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Location not found.")
+    @Response<ConflitErrorResponse>(409, "Can't transfer stock.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async createTransfer(
+        @Request() request: AuthRequest,
+        @Body() body: CreateTransferParams,
+        @Header("Idempotency-Key") idempotencyKey?: string,
+    ): Promise<CreateTransferResult> {
+        const userId: UUID = request.auth.userId;
+        const route = "POST /stock/transfers";
+
+        return await runIdempotent(
+            {key: idempotencyKey, userId: userId, route: route, payload: body},
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            async (transaction) => ({
+                status: 201,
+                data: toTransferInfo(await processTransfer(body, userId, transaction))
+            })
+        );
+    }
+
+    /**
+     * @summary Retrieve a stock transfer.
+     *
+     * @param transferId The transfer's unique identifier.
+     */
+    @Get("transfers/{transferId}")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the transfer.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Transfer not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getTransfer(
+        @Path() transferId: UUID,
+    ): Promise<GetTransferResult> {
+        const result = await StockTransfer.findByPk(transferId, {include: includeItems()});
+
+        if (result == null) {
+            return Promise.reject(transferNotFoundError(transferId));
+        }
+
+        return {
+            status: 200,
+            data: toTransferInfo(result)
+        };
+    }
+
+    /**
+     * Confirms the arrival of a transfer in transit and adds what arrived to the destination's stock.
+     * Only the products that didn't arrive complete need to be listed. The others are received in full.
+     * Missing quantities aren't returned to the source.
+     *
+     * @summary Receive a stock transfer.
+     *
+     * @param transferId The transfer's unique identifier.
+     */
+    @Post("transfers/{transferId}/receive")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully received the transfer.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Transfer not found.")
+    @Response<ConflitErrorResponse>(409, "Can't receive the transfer.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async receiveTransfer(
+        @Request() request: AuthRequest,
+        @Path() transferId: UUID,
+        @Body() body: ReceiveTransferParams = {},
+    ): Promise<GetTransferResult> {
+        const list: TransferListItem[] = body.list || [];
+        const productIds = list.map(item => item.productId);
+
+        // Sanity check. Don't allow repeated productId.
+        if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
+            return Promise.reject(new BadRequestError({
+                code: AppErrorCode.REQ_FORMAT,
+                message: "Repeated productId not allowed."
+            }));
+        }
+
+        const result = await StockTransfer.sequelize!!.transaction(
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            async (transaction) => {
+                const transfer = await findTransferInTransit(transferId, transaction);
+                if (transfer instanceof AppError) {
+                    return transfer;
+                }
+
+                const items: StockTransferItem[] = transfer.items!!;
+                for (const [idx, item] of list.entries()) {
+                    const sent = items.find(i => i.productId == item.productId);
+                    if (sent == null) {
+                        return new BadRequestError({
+                            message: "Can't receive products that weren't sent.",
+                            code: AppErrorCode.REQ_FORMAT,
+                            fields: {
+                                [`body.list.${idx}.productId`]: {
+                                    message: "This product isn't part of the transfer.",
+                                    value: item.productId
+                                }
+                            }
+                        });
+                    }
+                    if (item.quantity > sent.quantity) {
+                        return new BadRequestError({
+                            message: "Can't receive more than was sent.",
+                            code: AppErrorCode.REQ_FORMAT,
+                            fields: {
+                                [`body.list.${idx}.quantity`]: {
+                                    message: `Only ${sent.quantity} were sent.`,
+                                    value: item.quantity
+                                }
+                            }
+                        });
+                    }
+                }
+
+                for (const item of items) {
+                    item.received = list.find(i => i.productId == item.productId)?.quantity ?? item.quantity;
+                    await item.save({transaction});
+                }
+
+                await addStock(
+                    items.map(i => ({productId: i.productId, locationId: transfer.toLocationId, quantity: i.received!!})),
+                    {type: MovementType.TRANSFER, userId: request.auth.userId, referenceId: transferId},
+                    transaction
+                );
+                await transfer.update({
+                    status: TransferStatus.RECEIVED,
+                    receivedById: request.auth.userId,
+                    receivedAt: new Date(),
+                }, {transaction});
+
+                return transfer;
+            }
+        );
+
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+        return {
+            status: 200,
+            data: toTransferInfo(result)
+        };
+    }
+
+    /**
+     * Cancels a transfer in transit and returns its stock to the source.
+     *
+     * @summary Cancel a stock transfer.
+     *
+     * @param transferId The transfer's unique identifier.
+     */
+    @Post("transfers/{transferId}/cancel")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully cancelled the transfer.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Transfer not found.")
+    @Response<ConflitErrorResponse>(409, "Can't cancel the transfer.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async cancelTransfer(
+        @Request() request: AuthRequest,
+        @Path() transferId: UUID,
+    ): Promise<GetTransferResult> {
+        const result = await StockTransfer.sequelize!!.transaction(
+            {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+            async (transaction) => {
+                const transfer = await findTransferInTransit(transferId, transaction);
+                if (transfer instanceof AppError) {
+                    return transfer;
+                }
+
+                await addStock(
+                    transfer.items!!.map(i => ({productId: i.productId, locationId: transfer.fromLocationId, quantity: i.quantity})),
+                    {type: MovementType.TRANSFER, userId: request.auth.userId, referenceId: transferId},
+                    transaction
+                );
+                await transfer.update({
+                    status: TransferStatus.CANCELLED,
+                    receivedById: request.auth.userId,
+                    receivedAt: new Date(),
+                }, {transaction});
+
+                return transfer;
+            }
+        );
+
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+
+        return {
+            status: 200,
+            data: toTransferInfo(result)
+        };
+    }
+
+    /**
+     * Returns the stock-takes, most recent first.
+     *
+     * @summary Retrieve a list of stock-takes.
+     *
+     * @param locationId Only stock-takes at this location.
+     * @param status Only stock-takes with this status.
+     *
+     * @param limit Limit the number of stock-takes returned. Minimum 1.
+     * @isInt limit Must be an integer >= 1.
+     * @minimum limit 1 minimum 1.
+     *
+     * @param page Used for pagination. When limit is used, chunks of stock-takes will be skipped.
+     * @isInt page Must be an integer >= 0.
+     * @minimum page 0 minimum 0.
+     */
+    @Get("takes")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the stock-takes.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getStockTakes(
+        @Query() locationId?: UUID,
+        @Query() status?: StockTakeStatus,
+        @Query() limit: number = 10,
+        @Query() page: number = 0,
+    ): Promise<GetStockTakesResult> {
+        const result = await StockTake.findAll({
+            where: {
+                ...(locationId) ? {locationId} : {},
+                ...(status) ? {status} : {},
+            },
+            include: {association: StockTake.associations.items},
+            order: [["createdAt", "desc"]],
+            limit: limit,
+            offset: page * limit,
+        });
+
+        return {
+            status: 200,
+            data: result.map(toStockTakeInfo)
+        };
+    }
+
+    /**
+     * Opens a stock-take at a location, which snapshots the location's stock.
+     * Only one stock-take can be open at each location.
+     *
+     * @summary Open a stock-take.
+     */
+    @Post("takes")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(201, "Successfully opened the stock-take.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Location not found.")
+    @Response<ConflitErrorResponse>(409, "Can't open the stock-take.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async createStockTake(
+        @Request() request: AuthRequest,
+        @Body() body: CreateStockTakeParams,
+    ): Promise<CreateStockTakeResult> {
+        const { locationId, note } = body;
+
+        try {
+            const result = await StockTake.sequelize!!.transaction(
+                {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+                async (transaction) => {
+                    const location = await Location.findByPk(locationId, {attributes: ["locationId"], transaction});
+                    if (location == null) {
+                        return new NotFoundError({
+                            message: "Location doesn't exist.",
+                            code: AppErrorCode.NOT_FOUND,
+                            fields: {
+                                "body.locationId": {
+                                    message: "This locationId doesn't exist.",
+                                    value: locationId
+                                }
+                            }
+                        });
+                    }
+                    return await openStockTake(locationId, request.auth.userId, note || null, transaction);
+                }
+            );
+
+            if (result instanceof AppError) {
+                return Promise.reject(result);
+            }
+
+            return {
+                status: 201,
+                data: toStockTakeInfo(result)
+            };
+
+        } catch (err) {
+            // Another stock-take is open
+            if (err instanceof UniqueConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't open the stock-take. There's already an open stock-take at this location.",
+                    code: AppErrorCode.DUPLICATED,
+                }));
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Returns the stock-take and the variance of each counted product, i.e., the counted quantity
+     * minus the quantity in stock when it was counted.
+     *
+     * @summary Retrieve a stock-take.
+     *
+     * @param stockTakeId The stock-take's unique identifier.
+     */
+    @Get("takes/{stockTakeId}")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully returned the stock-take.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Stock-take not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getStockTake(
+        @Path() stockTakeId: UUID,
+    ): Promise<GetStockTakeResult> {
+        const result = await StockTake.findByPk(stockTakeId, {include: {association: StockTake.associations.items}});
+
+        if (result == null) {
+            return Promise.reject(new NotFoundError({
+                message: "Stock-take not found.",
+                code: AppErrorCode.NOT_FOUND,
+            }));
+        }
+
+        return {
+            status: 200,
+            data: toStockTakeInfo(result)
+        };
+    }
+
+    /**
+     * Submits the counted quantities of some products. The counts can be submitted in several parts,
+     * e.g., one per shelf. Counting a product again replaces its previous count.
+     *
+     * @summary Submit counts to a stock-take.
+     *
+     * @param stockTakeId The stock-take's unique identifier.
+     */
+    @Post("takes/{stockTakeId}/counts")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.SELLER])
+    @SuccessResponse(200, "Successfully submitted the counts.")
+    @Response<BadRequestErrorResponse>(400, "Bad Request.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Stock-take not found.")
+    @Response<ConflitErrorResponse>(409, "Can't submit the counts.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async submitStockTakeCounts(
+        @Request() request: AuthRequest,
+        @Path() stockTakeId: UUID,
+        @Body() body: SubmitCountsParams,
+    ): Promise<GetStockTakeResult> {
+        const { list } = body;
+        const productIds = list.map(item => item.productId);
+
+        // Sanity check. Don't allow repeated productId.
+        if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
+            return Promise.reject(new BadRequestError({
+                code: AppErrorCode.REQ_FORMAT,
+                message: "Repeated productId not allowed."
+            }));
+        }
+
+        try {
+            const result = await StockTake.sequelize!!.transaction(
+                {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ},
+                async (transaction) => {
+                    const stockTake = await findOpenStockTake(stockTakeId, transaction);
+                    if (stockTake instanceof AppError) {
+                        return stockTake;
+                    }
+
+                    const items = await submitCounts(stockTake, list, request.auth.userId, transaction);
+                    if (items instanceof AppError) {
+                        return items;
+                    }
+                    stockTake.items = items;
+                    return stockTake;
+                }
+            );
+
+            if (result instanceof AppError) {
+                return Promise.reject(result);
+            }
+
+            return {
+                status: 200,
+                data: toStockTakeInfo(result)
+            };
+
+        } catch (err) {
+            // Error during insert
+            if (err instanceof ForeignKeyConstraintError) {
+                return Promise.reject(new ConflitError({
+                    message: "Can't submit the counts. Some products don't exist."
+                }));
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Closes the stock-take and adds the variances of the counted products to the stock.
+     * Products that weren't counted aren't changed.
+     *
+     * @summary Approve a stock-take.
+     *
+     * @param stockTakeId The stock-take's unique identifier.
+     */
+    @Post("takes/{stockTakeId}/approve")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully approved the stock-take.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Stock-take not found.")
+    @Response<ConflitErrorResponse>(409, "Can't approve the stock-take.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async approveStockTake(
+        @Request() request: AuthRequest,
+        @Path() stockTakeId: UUID,
+    ): Promise<GetStockTakeResult> {
+        return await closeStockTake(stockTakeId, request.auth.userId, StockTakeStatus.APPROVED);
+    }
+
+    /**
+     * Closes the stock-take without changing the stock.
+     *
+     * @summary Cancel a stock-take.
+     *
+     * @param stockTakeId The stock-take's unique identifier.
+     */
+    @Post("takes/{stockTakeId}/cancel")
+    @Tags(TAG_STOCK)
+    @Security(SecurityScheme.JWT, [Role.MANAGER])
+    @SuccessResponse(200, "Successfully cancelled the stock-take.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "Stock-take not found.")
+    @Response<ConflitErrorResponse>(409, "Can't cancel the stock-take.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async cancelStockTake(
+        @Request() request: AuthRequest,
+        @Path() stockTakeId: UUID,
+    ): Promise<GetStockTakeResult> {
+        return await closeStockTake(stockTakeId, request.auth.userId, StockTakeStatus.CANCELLED);
+    }
+}
+
+// ------------------------------ Helper Functions ------------------------------ //
+
+/**
+ * Approves or cancels a stock-take, as described in "POST /stock/takes/{stockTakeId}/approve" and
+ * "POST /stock/takes/{stockTakeId}/cancel".
+ *
+ * @param stockTakeId The stock-take's unique identifier.
+ * @param userId The unique identifier of the manager closing the stock-take.
+ * @param status Either approved or cancelled.
+ * @returns A promise to be either resolved with the stock-take or rejected with an Error.
+ */
+async function closeStockTake(stockTakeId: UUID, userId: UUID, status: StockTakeStatus): Promise<GetStockTakeResult> {
+    // Approving adjusts the stock, which must wait for concurrent changes instead of failing.
+    const result = await StockTake.sequelize!!.transaction(
+        {isolationLevel: Transaction.ISOLATION_LEVELS.READ_COMMITTED},
+        async (transaction) => {
+            const stockTake = await findOpenStockTake(stockTakeId, transaction);
+            if (stockTake instanceof AppError) {
+                return stockTake;
+            }
+
+            if (status == StockTakeStatus.APPROVED) {
+                await applyVariances(stockTake, userId, transaction);
+            }
+            await stockTake.update({status, closedById: userId, closedAt: new Date()}, {transaction});
+            return stockTake;
+        }
+    );
+
+    if (result instanceof AppError) {
+        return Promise.reject(result);
+    }
+
+    return {
+        status: 200,
+        data: toStockTakeInfo(result)
+    };
+}
+
+/**
+ * Applies the adjustments, as described in "POST /stock/adjustments".
+ *
+ * @param body The adjustments.
+ * @param userId The unique identifier of the user adjusting the stock.
+ * @param parent The transaction to adjust the stock in. If missing, a new one is started.
+ * @returns A promise to be either resolved with the new quantities or rejected with an Error.
+ */
+async function processAdjustments(body: CreateAdjustmentsParams, userId: UUID, parent?: Transaction): Promise<StockQuantity[]> {
+    const { list } = body;
+    const keys = list.map(item => `${item.productId}/${item.locationId}`);
+
+    // Sanity check. Don't allow repeated products at the same location.
+    if (keys.some((key, idx) => keys.lastIndexOf(key) != idx)) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Repeated productId and locationId not allowed."
+        }));
+    }
+
+    const zero = list.findIndex(item => item.delta == 0);
+    if (zero != -1) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Adjustments can't be zero.",
+            fields: {
+                [`body.list.${zero}.delta`]: {
+                    message: "Must be different from 0.",
+                    value: 0
+                }
+            }
+        }));
+    }
+
+    try {
+        // Each adjustment is a single statement that waits for concurrent changes to the same stock.
+        // Repeatable read would fail those statements instead.
+        const result = await Stock.sequelize!!.transaction(
+            {isolationLevel: Transaction.ISOLATION_LEVELS.READ_COMMITTED, transaction: parent},
+            async (transaction) => {
+                // Bundles take their components' stock.
+                const bundles = await Product.count({
+                    where: {productId: list.map(item => item.productId), category: ProductCategory.BUNDLE},
+                    transaction
+                });
+                if (bundles > 0) {
+                    return new ConflitError({
+                        message: "Can't adjust a bundle's stock. Adjust its components' stock instead."
+                    });
+                }
+
+                const quantities: StockQuantity[] = [];
+                for (const [idx, item] of list.entries()) {
+                    const { productId, locationId, delta, reason } = item;
+                    const quantity = await adjustStock(
+                        {productId, locationId, quantity: delta},
+                        {type: MovementType.ADJUSTMENT, userId: userId, reason: reason},
+                        transaction
+                    );
+
+                    // Throw, instead of returning, to roll back the previous adjustments.
+                    if (quantity == null) {
+                        throw new ConflitError({
+                            message: "Can't adjust the stock. The stock can't go below zero.",
+                            fields: {
+                                [`body.list.${idx}.delta`]: {
+                                    message: "Not enough stock at the location.",
+                                    value: delta
+                                }
+                            }
+                        });
+                    }
+                    quantities.push({productId, locationId, quantity});
+                }
+                return quantities;
+            }
+        );
+
+        if (result instanceof AppError) {
+            return Promise.reject(result);
+        }
+        return result;
+
+    } catch (err) {
+        // Error during insert
+        if (err instanceof ForeignKeyConstraintError) {
+            return Promise.reject(new ConflitError({
+                message: "Can't adjust the stock. Some products or locations don't exist."
+            }));
+        }
+        throw err;
+    }
+}
+
+/**
+ * Creates a transfer, as described in "POST /stock/transfers".
+ *
+ * @param body The transfer's locations and products.
+ * @param userId The unique identifier of the user making the transfer.
+ * @param parent The transaction to make the transfer in. If missing, a new one is started.
+ * @returns A promise to be either resolved with the transfer, with its items, or rejected with an Error.
+ */
+async function processTransfer(body: CreateTransferParams, userId: UUID, parent?: Transaction): Promise<StockTransfer> {
+    const { fromLocationId, toLocationId, list, inTransit, note } = body;
+    const productIds = list.map(item => item.productId);
+
+    if (fromLocationId == toLocationId) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Can't transfer stock to the same location.",
+            fields: {
+                "body.toLocationId": {
+                    message: "Must be different from fromLocationId.",
+                    value: toLocationId
+                }
+            }
+        }));
+    }
+
+    // Sanity check. Don't allow repeated productId.
+    if (productIds.some((id, idx) => productIds.lastIndexOf(id) != idx)) {
+        return Promise.reject(new BadRequestError({
+            code: AppErrorCode.REQ_FORMAT,
+            message: "Repeated productId not allowed."
+        }));
+    }
+
+    const result = await StockTransfer.sequelize!!.transaction(
+        {isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ, transaction: parent},
+        async (transaction) => {
+            for (const [field, locationId] of [["fromLocationId", fromLocationId], ["toLocationId", toLocationId]]) {
+                const location = await Location.findByPk(locationId, {attributes: ["locationId"], transaction});
+                if (location == null) {
+                    return new NotFoundError({
+                        message: "Location doesn't exist.",
+                        code: AppErrorCode.NOT_FOUND,
+                        fields: {
+                            [`body.${field}`]: {
+                                message: "This locationId doesn't exist.",
+                                value: locationId
+                            }
+                        }
+                    });
+                }
+            }
+
+            const stockResult: Stock[] = await Stock.findAll({
+                where: { productId: productIds, locationId: fromLocationId },
+                transaction,
+            });
+
+            // Stock held by pending sales can't leave the source.
+            const reserved: ReservedStock[] = await getReservedStock(productIds, fromLocationId, transaction);
+
+            const missing = list.filter(item => {
+                const stock = stockResult.find(s => s.productId == item.productId);
+                const held = reserved.find(r => r.productId == item.productId)?.quantity || 0;
+                return stock == null || stock.quantity - held < item.quantity;
+            });
+            if (missing.length > 0) {
+                return new ConflitError({
+                    message: "Can't transfer stock. Missing stock at the source.",
+                    fields: Object.fromEntries(missing.map(item => [
+                        `body.list.${list.indexOf(item)}.quantity`,
+                        {message: "Not enough stock available at the source.", value: item.quantity}
+                    ]))
+                });
+            }
+
+            const transfer = await StockTransfer.create(
+                {
+                    fromLocationId: fromLocationId,
+                    toLocationId: toLocationId,
+                    status: (inTransit) ? TransferStatus.IN_TRANSIT : TransferStatus.RECEIVED,
+                    createdById: userId,
+                    receivedById: (inTransit) ? null : userId,
+                    receivedAt: (inTransit) ? null : new Date(),
+                    note: note || null,
+                },
+                { transaction }
+            );
+
+            transfer.items = await StockTransferItem.bulkCreate(list.map(item => ({
+                transferId: transfer.transferId,
+                productId: item.productId,
+                quantity: item.quantity,
+                received: (inTransit) ? null : item.quantity,
+            })), {transaction});
+
+            const source: MovementSource = {type: MovementType.TRANSFER, userId: userId, referenceId: transfer.transferId};
+            await addStock(list.map(item => ({...item, locationId: fromLocationId, quantity: -item.quantity})), source, transaction);
+            if (!inTransit) {
+                await addStock(list.map(item => ({...item, locationId: toLocationId})), source, transaction);
+            }
+            return transfer;
+        }
+    );
+
+    if (result instanceof AppError) {
+        return Promise.reject(result);
+    }
+    return result;
+}
+
+/**
+ * Finds a transfer in transit, with its items, and locks it until the end of the transaction.
+ *
+ * @param transferId The transfer's unique identifier.
+ * @param transaction The transaction.
+ * @returns A promise to be either resolved with the transfer or an AppError, or rejected with an Error.
+ */
+async function findTransferInTransit(transferId: UUID, transaction: Transaction): Promise<StockTransfer | AppError> {
+    const transfer = await StockTransfer.findByPk(transferId, {transaction, lock: transaction.LOCK.UPDATE});
+
+    if (transfer == null) {
+        return transferNotFoundError(transferId);
+    }
+    if (transfer.status != TransferStatus.IN_TRANSIT) {
+        return new ConflitError({
+            message: `The transfer isn't in transit. It was already ${transfer.status}.`
+        });
+    }
+
+    transfer.items = await transfer.getItems({transaction});
+    return transfer;
+}
+
+function includeItems() {
+    return {
+        association: StockTransfer.associations.items,
+        attributes: ["productId", "quantity", "received"],
+    };
+}
+
+function transferNotFoundError(transferId: UUID): NotFoundError {
+    return new NotFoundError({
+        message: "Transfer not found.",
+        code: AppErrorCode.NOT_FOUND,
+        fields: {
+            "transferId": {
+                message: "This transferId doesn't exist.",
+                value: transferId
+            }
+        }
+    });
+}
+
+/**
+ * @param alert A product's stock at a location, at or below its threshold.
+ * @returns The fraction of the threshold left. Lower is more urgent.
+ */
+function getUrgency(alert: AlertInfo): number {
+    return (alert.lowStockThreshold > 0) ? alert.quantity / alert.lowStockThreshold : 0;
+}
+
+function toStockTakeInfo(stockTake: StockTake): StockTakeInfo {
+    const items: StockTakeItemInfo[] = (stockTake.items || []).map(item => ({
+        productId: item.productId,
+        snapshot: item.snapshot,
+        expected: item.expected ?? undefined,
+        counted: item.counted ?? undefined,
+        variance: getVariance(item) ?? undefined,
+        countedById: item.countedById || undefined,
+        countedAt: item.countedAt || undefined,
+    }));
+
+    return {
+        stockTakeId: stockTake.stockTakeId,
+        locationId: stockTake.locationId,
+        status: stockTake.status,
+        openedById: stockTake.openedById,
+        createdAt: stockTake.createdAt,
+        closedById: stockTake.closedById || undefined,
+        closedAt: stockTake.closedAt || undefined,
+        note: stockTake.note || undefined,
+        counted: items.filter(item => item.counted != null).length,
+        list: items,
+    };
+}
+
+function toMovementInfo(movement: StockMovement): MovementInfo {
+    return {
+        movementId: movement.movementId,
+        productId: movement.productId,
+        locationId: movement.locationId,
+        type: movement.type,
+        delta: movement.delta,
+        quantity: movement.quantity,
+        userId: movement.userId,
+        referenceId: movement.referenceId || undefined,
+        reason: movement.reason || undefined,
+        createdAt: movement.createdAt,
+    };
+}
+
+function toTransferInfo(transfer: StockTransfer): TransferInfo {
+    return {
+        transferId: transfer.transferId,
+        fromLocationId: transfer.fromLocationId,
+        toLocationId: transfer.toLocationId,
+        status: transfer.status,
+        createdById: transfer.createdById,
+        createdAt: transfer.createdAt,
+        receivedById: transfer.receivedById || undefined,
+        receivedAt: transfer.receivedAt || undefined,
+        note: transfer.note || undefined,
+        list: transfer.items?.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            received: item.received ?? undefined,
+        })) || [],
+    };
+}
+
+// ------------------------------ Request Formats ------------------------------ //
+
+interface AdjustmentListItem {
+    productId: UUID,
+    locationId: UUID,
+    /**
+     * Quantity to add. Negative to remove.
+     * @isInt
+     * @example -2
+     */
+    delta: number,
+    reason: AdjustmentReason,
+}
+
+/** JSON request format for the "POST /stock/adjustments" endpoint. */
+interface CreateAdjustmentsParams {
+    /** @minItems 1 */
+    list: AdjustmentListItem[],
+}
+
+interface ThresholdListItem {
+    productId: UUID,
+    /** If missing, the product's threshold is set. */
+    locationId?: UUID,
+    /**
+     * Null to use the product's threshold, or the global one.
+     * @isInt
+     * @minimum 0 minimum 0.
+     * @example 5
+     */
+    lowStockThreshold: number | null,
+}
+
+/** JSON request format for the "PUT /stock/thresholds" endpoint. */
+interface UpdateThresholdsParams {
+    /** @minItems 1 */
+    list: ThresholdListItem[],
+}
+
+/** JSON request format for the "POST /stock/takes" endpoint. */
+interface CreateStockTakeParams {
+    locationId: UUID,
+    /** @example "End of the festival" */
+    note?: string,
+}
+
+interface CountListItem {
+    productId: UUID,
+    /** @isInt @minimum 0 minimum 0. */
+    quantity: number,
+}
+
+/** JSON request format for the "POST /stock/takes/{stockTakeId}/counts" endpoint. */
+interface SubmitCountsParams {
+    /** @minItems 1 */
+    list: CountListItem[],
+}
+
+interface TransferListItem {
+    productId: UUID,
+    /** @isInt @minimum 1 minimum 1. */
+    quantity: number,
+}
+
+/** JSON request format for the "POST /stock/transfers" endpoint. */
+interface CreateTransferParams {
+    fromLocationId: UUID,
+    toLocationId: UUID,
+    list: TransferListItem[],
+    /** If true, the stock only reaches the destination when the transfer is received. */
+    inTransit?: boolean,
+    /** @example "5 boxes for the festival's opening night" */
+    note?: string,
+}
+
+interface ReceivedListItem {
+    productId: UUID,
+    /** @isInt @minimum 0 minimum 0. */
+    quantity: number,
+}
+
+/** JSON request format for the "POST /stock/transfers/{transferId}/receive" endpoint. */
+interface ReceiveTransferParams {
+    /** The quantities that arrived, for the products that didn't arrive complete. */
+    list?: ReceivedListItem[],
+}
+
+// ------------------------------ Response Formats ------------------------------ //
+
+interface AlertInfo {
+    productId: UUID,
+    name: string,
+    locationId: UUID,
+    /** Available quantity, excluding reserved stock. */
+    quantity: number,
+    /** Quantity held by pending sales. */
+    reserved: number,
+    lowStockThreshold: number,
+}
+
+interface StockInfo {
+    productId: UUID,
+    locationId: UUID,
+    /** Quantity after the adjustment. */
+    quantity: number,
+}
+
+interface StockTakeItemInfo {
+    productId: UUID,
+    /** Stock when the stock-take was opened. */
+    snapshot: number,
+    /** Stock when the product was counted. Missing until counted. */
+    expected?: number,
+    counted?: number,
+    /** Counted minus expected. Missing until counted. */
+    variance?: number,
+    countedById?: UUID,
+    countedAt?: Date,
+}
+
+interface StockTakeInfo {
+    stockTakeId: UUID,
+    locationId: UUID,
+    status: StockTakeStatus,
+    openedById: UUID,
+    createdAt: Date,
+    /** The manager who approved or cancelled the stock-take. */
+    closedById?: UUID,
+    closedAt?: Date,
+    note?: string,
+    /** Number of products counted so far. */
+    counted: number,
+    list: StockTakeItemInfo[],
+}
+
+interface MovementInfo {
+    movementId: UUID,
+    productId: UUID,
+    locationId: UUID,
+    type: MovementType,
+    /** Change in quantity. Negative when stock left the location. */
+    delta: number,
+    /** Quantity after the change. */
+    quantity: number,
+    userId: UUID,
+    /** The sale, transfer or stock-take that caused the change. */
+    referenceId?: UUID,
+    /** Only for adjustments. */
+    reason?: AdjustmentReason,
+    createdAt: Date,
+}
+
+interface TransferItemInfo {
+    productId: UUID,
+    /** Quantity taken from the source. */
+    quantity: number,
+    /** Quantity added to the destination. Missing while in transit. */
+    received?: number,
+}
+
+interface TransferInfo {
+    transferId: UUID,
+    fromLocationId: UUID,
+    toLocationId: UUID,
+    status: TransferStatus,
+    createdById: UUID,
+    createdAt: Date,
+    /** The user who received or cancelled the transfer. */
+    receivedById?: UUID,
+    receivedAt?: Date,
+    note?: string,
+    list: TransferItemInfo[],
+}
+
+/** JSON response format for the "GET /stock/alerts" endpoint. */
+interface GetAlertsResult {
+    status: 200,
+    data: AlertInfo[]
+}
+
+/** JSON response format for the "POST /stock/adjustments" endpoint. */
+interface CreateAdjustmentsResult {
+    status: 200,
+    data: StockInfo[]
+}
+
+/** JSON response format for the "GET /stock/movements" endpoint. */
+interface GetMovementsResult {
+    status: 200,
+    data: MovementInfo[]
+}
+
+/** JSON response format for the "GET /stock/transfers" endpoint. */
+interface GetTransfersResult {
+    status: 200,
+    data: TransferInfo[]
+}
+
+/** JSON response format for the "POST /stock/transfers" endpoint. */
+interface CreateTransferResult {
+    status: 201,
+    data: TransferInfo
+}
+
+/** JSON response format for the "GET /stock/transfers/{transferId}" endpoint. */
+interface GetTransferResult {
+    status: 200,
+    data: TransferInfo
+}
+
+/** JSON response format for the "GET /stock/takes" endpoint. */
+interface GetStockTakesResult {
+    status: 200,
+    data: StockTakeInfo[]
+}
+
+/** JSON response format for the "POST /stock/takes" endpoint. */
+interface CreateStockTakeResult {
+    status: 201,
+    data: StockTakeInfo
+}
+
+/** JSON response format for the "GET /stock/takes/{stockTakeId}" endpoint. */
+interface GetStockTakeResult {
+    status: 200,
+    data: StockTakeInfo
+}
@@ -0,0 +1,122 @@
+import { Association, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { Location } from "../locations/locationModel";
+import { Product } from "../products/productModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { User } from "../users/userModel";
+
+export enum MovementType {
+    SALE = "sale",
+    /** A completed sale was cancelled and its stock returned. */
+    CANCELLATION = "cancellation",
+    RETURN = "return",
+    ADJUSTMENT = "adjustment",
+    TRANSFER = "transfer",
+    COUNT = "count",
+}
+
+export enum AdjustmentReason {
+    RECEIVED = "received",
+    DAMAGED = "damaged",
+    LOST = "lost",
+    FOUND = "found",
+    CORRECTION = "correction",
+}
+
+/**
+ * A change to the stock of a product at a location. Movements are only ever appended,
+ * so they explain how the stock reached its current quantity.
+ */
+export class StockMovement extends Model<InferAttributes<StockMovement>, InferCreationAttributes<StockMovement>> {
+    declare movementId: CreationOptional<UUID>;
+    declare productId: ForeignKey<UUID>;
+    declare locationId: ForeignKey<UUID>;
+    declare type: MovementType;
+    declare delta: number;
+    declare quantity: number;
+    declare userId: ForeignKey<UUID>;
+    declare referenceId: CreationOptional<UUID | null>;
+    declare reason: CreationOptional<AdjustmentReason | null>;
+    declare createdAt: CreationOptional<Date>;
+
+    // Eager loaded properties
+    declare product?: NonAttribute<Product>;
+    declare location?: NonAttribute<Location>;
+    declare user?: NonAttribute<User>;
+
+    declare static associations: {
+        product: Association<StockMovement, Product>,
+        location: Association<StockMovement, Location>,
+        user: Association<StockMovement, User>,
+    }
+}
+
+registerModel(initStockMovementModel);
+registerAssociations(initStockMovementAssociations);
+
+async function initStockMovementModel(sequelize: Sequelize): Promise<void> {
+    StockMovement.init(
+        {
+            movementId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            type: {
+                type: DataTypes.ENUM,
+                allowNull: false,
+                values: Object.values(MovementType),
+            },
+            // Change in quantity. Negative when stock left the location.
+            delta: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+            },
+            // Quantity after the change.
+            quantity: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+            },
+            // The sale, transfer or stock-take that caused the change, depending on the type.
+            referenceId: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
+            // Only for adjustments.
+            reason: {
+                type: DataTypes.ENUM,
+                allowNull: true,
+                values: Object.values(AdjustmentReason),
+            },
+            createdAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "stock_movement",
+            timestamps: true,
+            updatedAt: false,
+            indexes: [
+                {fields: ["productId", "locationId", "createdAt"]},
+                {fields: ["referenceId"]},
+            ],
+            // The ledger is append-only.
+            hooks: {
+                beforeUpdate: () => { throw new Error("Stock movements can't be updated."); },
+                beforeDestroy: () => { throw new Error("Stock movements can't be deleted."); },
+            }
+        }
+    )
+}
+
+async function initStockMovementAssociations(): Promise<void> {
+    StockMovement.belongsTo(Product, {as: "product", foreignKey: "productId"});
+    // The ledger can't lose the location of its movements.
+    StockMovement.belongsTo(Location, {as: "location", foreignKey: "locationId", onDelete: "RESTRICT"});
+    StockMovement.belongsTo(User, {as: "user", foreignKey: "userId"});
+}
@@ -0,0 +1,84 @@
+import { Association, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
+import { UUID } from "../common/types";
+import { Product } from "../products/productModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { User } from "../users/userModel";
+import { StockTake } from "./stockTakeModel";
+
+/**
+ * A product in a count. The stock may change while the count is open (e.g., sales), so the quantity
+ * expected when the product was counted is kept, and the variance is measured against it.
+ */
+export class StockTakeItem extends Model<InferAttributes<StockTakeItem>, InferCreationAttributes<StockTakeItem>> {
+    declare stockTakeId: ForeignKey<UUID>;
+    declare productId: ForeignKey<UUID>;
+    declare snapshot: number;
+    declare expected: CreationOptional<number | null>;
+    declare counted: CreationOptional<number | null>;
+    declare countedById: CreationOptional<UUID | null>;
+    declare countedAt: CreationOptional<Date | null>;
+
+    // Eager loaded properties
+    declare stockTake?: NonAttribute<StockTake>;
+    declare product?: NonAttribute<Product>;
+
+    declare static associations: {
+        stockTake: Association<StockTakeItem, StockTake>,
+        product: Association<StockTakeItem, Product>,
+        countedBy: Association<StockTakeItem, User>,
+    }
+}
+
+registerModel(initStockTakeItemModel);
+registerAssociations(initStockTakeItemAssociations);
+
+async function initStockTakeItemModel(sequelize: Sequelize): Promise<void> {
+    StockTakeItem.init(
+        {
+            stockTakeId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            productId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            // Stock when the count was opened.
+            snapshot: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+            },
+            // Stock when the product was counted. Null until counted.
+            expected: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+            },
+            counted: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 0,
+                }
+            },
+            countedById: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
+            countedAt: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "stock_take_item",
+            timestamps: false,
+        }
+    )
+}
+
+async function initStockTakeItemAssociations(): Promise<void> {
+    StockTakeItem.belongsTo(StockTake, {as: "stockTake", foreignKey: "stockTakeId"});
+    StockTakeItem.belongsTo(Product, {as: "product", foreignKey: "productId"});
+    StockTakeItem.belongsTo(User, {as: "countedBy", foreignKey: "countedById"});
+}
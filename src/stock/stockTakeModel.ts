@@ -0,0 +1,103 @@
+import { Association, CreationOptional, DataTypes, ForeignKey, HasManyGetAssociationsMixin, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { Location } from "../locations/locationModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { User } from "../users/userModel";
+import { StockTakeItem } from "./stockTakeItemModel";
+
+export enum StockTakeStatus {
+    /** Accepting counts. */
+    OPEN = "open",
+    /** The variances were applied to the stock. */
+    APPROVED = "approved",
+    CANCELLED = "cancelled",
+}
+
+/**
+ * A count of the stock at a location. The stock is snapshotted when the count is opened,
+ * and the variances are applied to the stock when it's approved.
+ */
+export class StockTake extends Model<InferAttributes<StockTake>, InferCreationAttributes<StockTake>> {
+    declare stockTakeId: CreationOptional<UUID>;
+    declare locationId: ForeignKey<UUID>;
+    declare status: StockTakeStatus;
+    declare openedById: ForeignKey<UUID>;
+    declare closedById: CreationOptional<UUID | null>;
+    declare closedAt: CreationOptional<Date | null>;
+    declare note: CreationOptional<string | null>;
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+
+    declare getItems: HasManyGetAssociationsMixin<StockTakeItem>;
+
+    // Eager loaded properties
+    declare items?: NonAttribute<StockTakeItem[]>;
+    declare location?: NonAttribute<Location>;
+
+    declare static associations: {
+        items: Association<StockTake, StockTakeItem>,
+        location: Association<StockTake, Location>,
+        openedBy: Association<StockTake, User>,
+        closedBy: Association<StockTake, User>,
+    }
+}
+
+registerModel(initStockTakeModel);
+registerAssociations(initStockTakeAssociations);
+
+async function initStockTakeModel(sequelize: Sequelize): Promise<void> {
+    StockTake.init(
+        {
+            stockTakeId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            status: {
+                type: DataTypes.ENUM,
+                allowNull: false,
+                values: Object.values(StockTakeStatus),
+            },
+            // The manager who approved or cancelled the count.
+            closedById: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
+            closedAt: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            note: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
+            createdAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+            updatedAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "stock_take",
+            timestamps: true,
+            indexes: [
+                // Only one open count per location.
+                {unique: true, fields: ["locationId"], where: {status: StockTakeStatus.OPEN}}
+            ],
+        }
+    )
+}
+
+async function initStockTakeAssociations(): Promise<void> {
+    StockTake.hasMany(StockTakeItem, {as: "items", foreignKey: "stockTakeId"});
+    StockTake.belongsTo(Location, {as: "location", foreignKey: "locationId", onDelete: "RESTRICT"});
+    StockTake.belongsTo(User, {as: "openedBy", foreignKey: "openedById"});
+    StockTake.belongsTo(User, {as: "closedBy", foreignKey: "closedById"});
+}
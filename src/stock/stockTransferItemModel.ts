@@ -0,0 +1,65 @@
+import { Association, CreationOptional, DataTypes, ForeignKey, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize } from "sequelize";
+import { UUID } from "../common/types";
+import { Product } from "../products/productModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { StockTransfer } from "./stockTransferModel";
+
+export class StockTransferItem extends Model<InferAttributes<StockTransferItem>, InferCreationAttributes<StockTransferItem>> {
+    declare transferId: ForeignKey<UUID>;
+    declare productId: ForeignKey<UUID>;
+    declare quantity: number;
+    declare received: CreationOptional<number | null>;
+
+    // Eager loaded properties
+    declare transfer?: NonAttribute<StockTransfer>;
+    declare product?: NonAttribute<Product>;
+
+    declare static associations: {
+        transfer: Association<StockTransferItem, StockTransfer>,
+        product: Association<StockTransferItem, Product>,
+    }
+}
+
+registerModel(initStockTransferItemModel);
+registerAssociations(initStockTransferItemAssociations);
+
+async function initStockTransferItemModel(sequelize: Sequelize): Promise<void> {
+    StockTransferItem.init(
+        {
+            transferId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            productId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+            },
+            // Quantity taken from the source.
+            quantity: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                validate: {
+                    min: 1,
+                }
+            },
+            // Quantity added to the destination. Null while in transit.
+            received: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 0,
+                }
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "stock_transfer_item",
+            timestamps: false,
+        }
+    )
+}
+
+async function initStockTransferItemAssociations(): Promise<void> {
+    StockTransferItem.belongsTo(StockTransfer, {as: "transfer", foreignKey: "transferId"});
+    StockTransferItem.belongsTo(Product, {as: "product", foreignKey: "productId"});
+}
@@ -0,0 +1,101 @@
+import { Association, CreationOptional, DataTypes, ForeignKey, HasManyGetAssociationsMixin, InferAttributes, InferCreationAttributes, Model, NonAttribute, Sequelize, UUIDV4 } from "sequelize";
+import { UUID } from "../common/types";
+import { Location } from "../locations/locationModel";
+import { registerAssociations, registerModel } from "../sequelize";
+import { User } from "../users/userModel";
+import { StockTransferItem } from "./stockTransferItemModel";
+
+export enum TransferStatus {
+    /** Taken from the source, not yet confirmed by the destination. */
+    IN_TRANSIT = "in_transit",
+    RECEIVED = "received",
+    /** Returned to the source before arriving. */
+    CANCELLED = "cancelled",
+}
+
+export class StockTransfer extends Model<InferAttributes<StockTransfer>, InferCreationAttributes<StockTransfer>> {
+    declare transferId: CreationOptional<UUID>;
+    declare fromLocationId: ForeignKey<UUID>;
+    declare toLocationId: ForeignKey<UUID>;
+    declare status: TransferStatus;
+    declare createdById: ForeignKey<UUID>;
+    declare receivedById: CreationOptional<UUID | null>;
+    declare receivedAt: CreationOptional<Date | null>;
+    declare note: CreationOptional<string | null>;
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+
+    declare getItems: HasManyGetAssociationsMixin<StockTransferItem>;
+
+    // Eager loaded properties
+    declare items?: NonAttribute<StockTransferItem[]>;
+    declare fromLocation?: NonAttribute<Location>;
+    declare toLocation?: NonAttribute<Location>;
+    declare createdBy?: NonAttribute<User>;
+    declare receivedBy?: NonAttribute<User>;
+
+    declare static associations: {
+        items: Association<StockTransfer, StockTransferItem>,
+        fromLocation: Association<StockTransfer, Location>,
+        toLocation: Association<StockTransfer, Location>,
+        createdBy: Association<StockTransfer, User>,
+        receivedBy: Association<StockTransfer, User>,
+    }
+}
+
+registerModel(initStockTransferModel);
+registerAssociations(initStockTransferAssociations);
+
+async function initStockTransferModel(sequelize: Sequelize): Promise<void> {
+    StockTransfer.init(
+        {
+            transferId: {
+                type: DataTypes.UUID,
+                primaryKey: true,
+                defaultValue: UUIDV4,
+                validate: {
+                    isUUID: 4
+                }
+            },
+            status: {
+                type: DataTypes.ENUM,
+                allowNull: false,
+                values: Object.values(TransferStatus),
+            },
+            // The user who confirmed the arrival (or cancelled the transfer).
+            receivedById: {
+                type: DataTypes.UUID,
+                allowNull: true,
+            },
+            receivedAt: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            note: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
+            createdAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+            updatedAt: {
+                type: DataTypes.DATE,
+                allowNull: false,
+            },
+        },
+        {
+            sequelize: sequelize,
+            tableName: "stock_transfer",
+            timestamps: true,
+        }
+    )
+}
+
+async function initStockTransferAssociations(): Promise<void> {
+    StockTransfer.hasMany(StockTransferItem, {as: "items", foreignKey: "transferId"});
+    StockTransfer.belongsTo(Location, {as: "fromLocation", foreignKey: "fromLocationId", onDelete: "RESTRICT"});
+    StockTransfer.belongsTo(Location, {as: "toLocation", foreignKey: "toLocationId", onDelete: "RESTRICT"});
+    StockTransfer.belongsTo(User, {as: "createdBy", foreignKey: "createdById"});
+    StockTransfer.belongsTo(User, {as: "receivedBy", foreignKey: "receivedById"});
+}
@@ -6,6 +6,7 @@ import { UniqueConstraintError } from "sequelize";
 import { AppError, AppErrorCode, AuthenticationErrorResponse, BadRequestErrorResponse, ConflitError, ConflitErrorResponse, ForbiddenErrorResponse, NotFoundError, NotFoundErrorResponse, ServerErrorResponse } from "../common/errors";
 import { hasRolePrivileges, Role } from "../common/roles";
 import { hashData } from "../utils/crypto";
+import { getCustomerSales, SaleInfo, toSaleInfo } from "../sales/salesController";
 
 const TAG_USERS = "Users";
 
@@ -238,6 +239,66 @@ export class UsersController extends Controller {
         }
     }
 
+    /**
+     * Only the own user, or a manager, may view this purchase history.
+     * The returned sales are ordered by date (most recent first).
+     * 
+     * @summary Retrieve the user's purchases.
+     * 
+     * @param userId User's unique identifier.
+     * 
+     * @param limit Limit the number of sales returned. Minimum 1.
+     * @isInt limit Must be an integer >= 1.
+     * @minimum limit 1 minimum 1.
+     * 
+     * @param page Used for pagination. When limit is used,
+     * chunks of sales will be skipped (e.g. if page=5 and limit=10, the first 50 sales will be skipped).
+     * @isInt page Must be an integer >= 0.
+     * @minimum page 0 minimum 0.
+     */
+    @Get("{userId}/purchases")
+    @Tags(TAG_USERS)
+    @Security(SecurityScheme.JWT, [Role.BASIC])
+    @SuccessResponse(200, "Successfully returned the user's purchases.")
+    @Response<AuthenticationErrorResponse>(401, "Not Authenticated.")
+    @Response<ForbiddenErrorResponse>(403, "Not Authorized.")
+    @Response<NotFoundErrorResponse>(404, "User not found.")
+    @Response<ServerErrorResponse>(500, "Internal Server Error.")
+    public async getUserPurchases(
+        @Request() request: AuthRequest,
+        @Path() userId: UUID,
+        @Query() limit: number = 10,
+        @Query() page: number = 0,
+    ): Promise<GetUserPurchasesResult> {
+        const notFoundError = new NotFoundError({
+            code: AppErrorCode.NOT_FOUND,
+            message: "User not found.",
+            fields: {
+                "userId": {
+                    message: "This userId doesn't exist.",
+                    value: userId
+                }
+            }
+        });
+
+        // Check if the request has sufficient privileges to view this purchase history.
+        if (request.auth.userId !== userId && !hasRolePrivileges(request.auth.role, Role.MANAGER)) {
+            return Promise.reject(notFoundError);
+        }
+
+        const user = await User.findByPk(userId, {attributes: ["userId"]});
+        if (user == null) {
+            return Promise.reject(notFoundError);
+        }
+
+        const result = await getCustomerSales(userId, limit, page);
+
+        return {
+            status: 200,
+            data: result.map(toSaleInfo)
+        }
+    }
+
     /**
      * @summary Retrieve the user's information.
      * @param userId User's unique identifier.
@@ -443,6 +504,12 @@ interface GetUserFullInfoResult {
     data: UserProfile
 }
 
+/** JSON response format for the "GET /users/{userId}/purchases" endpoint. */
+interface GetUserPurchasesResult {
+    status: 200,
+    data: SaleInfo[]
+}
+
 /** JSON response format for the "POST /users" endpoint. */
 interface CreateUserResult {
     status: 201,
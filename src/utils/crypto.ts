@@ -56,4 +56,11 @@ export function getNowAfterSeconds(seconds: number): Date {
  */
 export function hasDateExpired(date: Date | null | undefined): boolean {
     return (date == null) || (date.valueOf() < Date.now());
-}
\ No newline at end of file
+}
+/**
+ * @param data The data to be hashed.
+ * @returns The data's SHA-256 digest, in hex.
+ */
+export function sha256(data: string | Buffer): string {
+    return crypto.createHash("sha256").update(data).digest("hex");
+}
@@ -0,0 +1,12 @@
+/**
+ * @param date A date.
+ * @param timeZone A time zone, e.g., "Europe/Lisbon".
+ * @returns The date's day in the time zone, at midnight UTC (e.g., 2022-09-01T00:00:00Z).
+ */
+export function getLocalDay(date: Date, timeZone: string): Date {
+    const parts = new Intl.DateTimeFormat("en-US", {timeZone, year: "numeric", month: "numeric", day: "numeric"})
+        .formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type == type)!!.value);
+
+    return new Date(Date.UTC(part("year"), part("month") - 1, part("day")));
+}